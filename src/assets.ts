@@ -0,0 +1,224 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import PQueue from 'p-queue';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { CrawlerConfig } from './interfaces.js';
+import { USER_AGENT } from './crawler.js';
+import { Logger, silentLogger } from './logger.js';
+import { createFetcher, Fetcher } from './fetcher.js';
+
+export const DEFAULT_ASSET_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml', 'image/avif'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'image/avif': '.avif',
+  'image/x-icon': '.ico',
+  'image/bmp': '.bmp'
+};
+
+/**
+ * Downloads images referenced by exported pages into an assets/ folder, deduplicated by content hash
+ */
+export class AssetDownloader {
+  private queue: PQueue;
+  private timeout: number;
+  private maxSize: number;
+  private allowedTypes: string[];
+  private downloaded = new Map<string, Promise<string | null>>(); // URL -> file name in the assets folder
+  private logger: Logger;
+  private fetcher: Fetcher;
+  private userAgent: string;
+
+  constructor(config: CrawlerConfig, logger: Logger = silentLogger) {
+    this.logger = logger;
+    this.fetcher = config.fetcher ?? createFetcher(config);
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.queue = new PQueue({ concurrency: config.maxConcurrency });
+    this.timeout = config.requestTimeout ?? 5000;
+    this.maxSize = config.maxAssetSize ?? 5 * 1024 * 1024;
+    this.allowedTypes = config.assetTypes ?? DEFAULT_ASSET_TYPES;
+  }
+
+  /**
+   * Pick the URL to use for an image: the largest srcset candidate, otherwise src or data-src
+   */
+  static imageSource($: CheerioAPI, img: Element, pageUrl: string): string | null {
+    const srcsets = [
+      $(img).attr('srcset'),
+      ...$(img).parent('picture').find('source[srcset]').toArray().map(source => $(source).attr('srcset'))
+    ];
+
+    let best: { url: string; size: number } | null = null;
+    for (const srcset of srcsets) {
+      for (const candidate of (srcset ?? '').split(',')) {
+        const [url, descriptor] = candidate.trim().split(/\s+/);
+        if (!url) continue;
+        const size = descriptor ? parseFloat(descriptor) || 1 : 1;
+        if (!best || size > best.size) {
+          best = { url, size };
+        }
+      }
+    }
+
+    const source = best?.url ?? $(img).attr('src') ?? $(img).attr('data-src');
+    if (!source || source.startsWith('data:')) {
+      return null;
+    }
+    try {
+      return new URL(source, pageUrl).toString();
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * File name for inline SVG markup; the same markup always maps to the same file
+   */
+  static inlineSvgFile(markup: string): string {
+    return createHash('sha256').update(markup).digest('hex').slice(0, 16) + '.svg';
+  }
+
+  /**
+   * Inline SVGs worth keeping as images; decorative icons marked aria-hidden are skipped
+   */
+  static inlineSvgs($: CheerioAPI): Element[] {
+    return $('svg').toArray().filter(svg => $(svg).attr('aria-hidden') !== 'true' && $(svg).parents('svg').length === 0);
+  }
+
+  /**
+   * Download the images and save the inline SVGs of a page's content HTML.
+   * Returns the page's assets as a URL to file name map, with inline SVGs keyed as inline:<file>.
+   */
+  async collect(html: string, pageUrl: string, assetsDir: string): Promise<Map<string, string>> {
+    const $ = cheerio.load(html, null, false);
+    await fs.mkdir(assetsDir, { recursive: true });
+
+    const files = new Map<string, string>();
+    const inlineSvgs = this.allowedTypes.includes('image/svg+xml') ? AssetDownloader.inlineSvgs($) : [];
+    for (const svg of inlineSvgs) {
+      if (!$(svg).attr('xmlns')) {
+        $(svg).attr('xmlns', 'http://www.w3.org/2000/svg');
+      }
+      const markup = $.html(svg);
+      const file = AssetDownloader.inlineSvgFile(markup);
+      await fs.writeFile(path.join(assetsDir, file), markup, 'utf-8');
+      this.downloaded.set(`inline:${file}`, Promise.resolve(file));
+      files.set(`inline:${file}`, file);
+    }
+
+    const urls = $('img').toArray()
+      .map(img => AssetDownloader.imageSource($, img, pageUrl))
+      .filter((url): url is string => !!url);
+
+    await Promise.all(urls.map(async url => {
+      const file = await this.download(url, assetsDir);
+      if (file) {
+        files.set(url, file);
+      }
+    }));
+    return files;
+  }
+
+  /**
+   * Download an asset once, no matter how many pages reference it
+   */
+  private download(url: string, assetsDir: string): Promise<string | null> {
+    let pending = this.downloaded.get(url);
+    if (!pending) {
+      pending = this.queue.add(() => this.fetchAsset(url, assetsDir)).then(file => file ?? null);
+      this.downloaded.set(url, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Fetch an asset, enforcing the size limit and allowed types, and store it under its content hash
+   */
+  private async fetchAsset(url: string, assetsDir: string): Promise<string | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetcher.fetch(url, {
+        headers: { 'User-Agent': this.userAgent },
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        this.logger.warn(`Skipped asset (HTTP ${response.status}): ${url}`);
+        return null;
+      }
+
+      const contentType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase()
+        || this.typeFromExtension(url);
+      if (!this.allowedTypes.includes(contentType)) {
+        this.logger.warn(`Skipped asset (type ${contentType || 'unknown'}): ${url}`);
+        return null;
+      }
+
+      const declaredSize = parseInt(response.headers.get('content-length') ?? '0');
+      if (declaredSize > this.maxSize) {
+        this.logger.warn(`Skipped asset (${declaredSize} bytes): ${url}`);
+        return null;
+      }
+
+      const body = await this.readBody(response, controller);
+      if (!body) {
+        this.logger.warn(`Skipped asset (over ${this.maxSize} bytes): ${url}`);
+        return null;
+      }
+
+      const extension = EXTENSIONS[contentType] ?? (path.extname(new URL(url).pathname).toLowerCase() || '.bin');
+      const file = createHash('sha256').update(body).digest('hex').slice(0, 16) + extension;
+      await fs.writeFile(path.join(assetsDir, file), body);
+      return file;
+    } catch (error) {
+      this.logger.warn(`Skipped asset (${(error as Error).message}): ${url}`);
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Read a response body, giving up as soon as it grows past the size limit; servers do not always
+   * declare the length up front
+   */
+  private async readBody(response: Response, controller: AbortController): Promise<Buffer | null> {
+    if (!response.body) {
+      return Buffer.alloc(0);
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return Buffer.concat(chunks);
+      }
+      size += value.length;
+      if (size > this.maxSize) {
+        controller.abort();
+        await reader.cancel().catch(() => undefined);
+        return null;
+      }
+      chunks.push(value);
+    }
+  }
+
+  /**
+   * Guess a MIME type from the URL when the server does not send one
+   */
+  private typeFromExtension(url: string): string {
+    const extension = path.extname(new URL(url).pathname).toLowerCase();
+    const match = Object.entries(EXTENSIONS).find(([, ext]) => ext === extension || (extension === '.jpeg' && ext === '.jpg'));
+    return match ? match[0] : '';
+  }
+}
@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Validators and body location for a cached response
+ */
+interface CacheEntry {
+  etag?: string;
+  lastModified?: string;
+  file: string;
+  fetchedAt: string;
+}
+
+/**
+ * On-disk HTTP cache used to send conditional requests on later runs
+ */
+export class HttpCache {
+  private bodiesDir: string;
+  private indexPath: string;
+  private entries: Record<string, CacheEntry> = {};
+  private loaded = false;
+
+  constructor(dir: string) {
+    this.bodiesDir = path.join(dir, 'bodies');
+    this.indexPath = path.join(dir, 'index.json');
+  }
+
+  /**
+   * Load the cache index from disk
+   */
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    await fs.mkdir(this.bodiesDir, { recursive: true });
+    try {
+      this.entries = JSON.parse(await fs.readFile(this.indexPath, 'utf-8'));
+    } catch (e) {
+      this.entries = {};
+    }
+  }
+
+  /**
+   * Get the conditional request headers for a URL, if it has been cached before
+   */
+  getConditionalHeaders(url: string): Record<string, string> {
+    const entry = this.entries[url];
+    const headers: Record<string, string> = {};
+    if (entry?.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Read the cached body for a URL, or null if it is missing
+   */
+  async getBody(url: string): Promise<string | null> {
+    const entry = this.entries[url];
+    if (!entry) {
+      return null;
+    }
+    try {
+      return await fs.readFile(path.join(this.bodiesDir, entry.file), 'utf-8');
+    } catch (e) {
+      delete this.entries[url];
+      return null;
+    }
+  }
+
+  /**
+   * Store a response body with its validators; responses without validators are not cached
+   */
+  async store(url: string, body: string, etag: string | null, lastModified: string | null): Promise<void> {
+    if (!etag && !lastModified) {
+      delete this.entries[url];
+      return;
+    }
+
+    const file = createHash('sha1').update(url).digest('hex') + '.html';
+    await fs.writeFile(path.join(this.bodiesDir, file), body, 'utf-8');
+    this.entries[url] = {
+      etag: etag ?? undefined,
+      lastModified: lastModified ?? undefined,
+      file,
+      fetchedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Write the cache index to disk
+   */
+  async save(): Promise<void> {
+    if (!this.loaded) {
+      return;
+    }
+    const tempPath = `${this.indexPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.entries), 'utf-8');
+    await fs.rename(tempPath, this.indexPath);
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { MarkdownChunker } from './chunker.js';
+
+const PAGE_URL = 'https://example.com/docs/guide';
+
+describe('MarkdownChunker.splitSections', () => {
+  const chunker = new MarkdownChunker();
+
+  test('splits at headings and tracks the heading breadcrumb', () => {
+    const sections = chunker.splitSections('Intro text\n\n# Guide\n\nAbout\n\n## Install ##\n\nRun it\n\n# API\n\nCalls');
+    expect(sections.map(section => section.headings)).toEqual([[], ['Guide'], ['Guide', 'Install'], ['API']]);
+    expect(sections[0].text).toBe('Intro text');
+    expect(sections[2].text).toBe('## Install ##\n\nRun it');
+  });
+
+  test('keeps a heading directly followed by a subheading with the subsection', () => {
+    const sections = chunker.splitSections('# Guide\n\n## Install\n\nRun it');
+    expect(sections).toEqual([{ headings: ['Guide', 'Install'], text: '# Guide\n\n## Install\n\nRun it' }]);
+  });
+
+  test('ignores headings inside code fences', () => {
+    const sections = chunker.splitSections('# Shell\n\n```sh\n# not a heading\n\n~~~\n```\n\nAfter');
+    expect(sections).toHaveLength(1);
+    expect(sections[0].text).toContain('# not a heading');
+    expect(sections[0].text).toEndWith('After');
+  });
+});
+
+describe('MarkdownChunker.chunk', () => {
+  test('keeps small sections whole and numbers chunks across the page', () => {
+    const records = new MarkdownChunker().chunk('Hello\n\n# Guide\n\nText', PAGE_URL, 'Guide');
+    expect(records.map(record => [record.id, record.chunkIndex, record.text])).toEqual([
+      [`${PAGE_URL}#intro:0`, 0, 'Hello'],
+      [`${PAGE_URL}#guide:0`, 1, '# Guide\n\nText']
+    ]);
+    expect(records[0].hash).toHaveLength(64);
+  });
+
+  test('splits large sections on paragraphs within the size limit', () => {
+    const paragraph = (n: number) => 'word '.repeat(n).trim();
+    const markdown = `# Big\n\n${paragraph(10)}\n\n${paragraph(10)}\n\n${paragraph(10)}`;
+    const records = new MarkdownChunker({ maxSize: 120 }).chunk(markdown, PAGE_URL, 'Big');
+    expect(records.length).toBeGreaterThan(1);
+    for (const record of records) {
+      expect(record.text.length).toBeLessThanOrEqual(120);
+    }
+    expect(records.map(record => record.id)).toEqual(records.map((_, i) => `${PAGE_URL}#big:${i}`));
+  });
+
+  test('keeps code blocks with blank lines together when they fit', () => {
+    const code = '```js\nconst a = 1;\n\nconst b = 2;\n```';
+    const records = new MarkdownChunker({ maxSize: 45 }).chunk(`Before the code block.\n\n${code}`, PAGE_URL, 'Code');
+    expect(records.map(record => record.text)).toContain(code);
+  });
+
+  test('hard-splits lines longer than the limit', () => {
+    const records = new MarkdownChunker({ maxSize: 10 }).chunk('x'.repeat(35), PAGE_URL, 'Long');
+    expect(records.map(record => record.text)).toEqual(['xxxxxxxxxx', 'xxxxxxxxxx', 'xxxxxxxxxx', 'xxxxx']);
+  });
+
+  test('repeats the end of the previous chunk with overlap', () => {
+    const markdown = 'alpha beta gamma\n\ndelta epsilon zeta\n\neta theta iota';
+    const records = new MarkdownChunker({ maxSize: 40, overlap: 10 }).chunk(markdown, PAGE_URL, 'Overlap');
+    expect(records.map(record => record.text)).toEqual(['alpha beta gamma\n\ndelta epsilon zeta', 'zeta\n\neta theta iota']);
+  });
+
+  test('counts sizes in approximate tokens', () => {
+    const text = 'word '.repeat(30).trim();
+    expect(new MarkdownChunker({ maxSize: 40 }).chunk(text, PAGE_URL, 'T')).toHaveLength(4);
+    expect(new MarkdownChunker({ maxSize: 40, unit: 'tokens' }).chunk(text, PAGE_URL, 'T')).toHaveLength(1);
+  });
+
+  test('keeps chunk ids stable when other sections change', () => {
+    const chunker = new MarkdownChunker();
+    const before = chunker.chunk('# Guide\n\nOld\n\n# Install\n\nSteps', PAGE_URL, 'Guide');
+    const after = chunker.chunk('Added intro\n\n# Guide\n\nNew text\n\n# Install\n\nSteps', PAGE_URL, 'Guide');
+    const install = (records: typeof before) => records.find(record => record.headings[0] === 'Install')!;
+    expect(install(after).id).toBe(install(before).id);
+    expect(install(after).id).toBe(`${PAGE_URL}#install:0`);
+    expect(install(after).chunkIndex).not.toBe(install(before).chunkIndex);
+  });
+
+  test('tells repeated breadcrumbs apart and slugs non-ASCII headings', () => {
+    const records = new MarkdownChunker().chunk('# Example\n\nA\n\n# Example\n\nB\n\n# Über uns!\n\nC', PAGE_URL, 'T');
+    expect(records.map(record => record.id)).toEqual([`${PAGE_URL}#example:0`, `${PAGE_URL}#example~2:0`, `${PAGE_URL}#über-uns:0`]);
+  });
+});
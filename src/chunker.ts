@@ -0,0 +1,236 @@
+import { createHash } from 'crypto';
+
+/**
+ * Options controlling how pages are split into chunks
+ */
+export interface ChunkOptions {
+  maxSize?: number;            // Maximum chunk size (default: 2000)
+  unit?: 'chars' | 'tokens';   // Unit of maxSize and overlap; tokens are approximated as 4 characters
+  overlap?: number;            // Text repeated from the end of the previous chunk of the same section
+}
+
+/**
+ * A chunk of a page, ready to be embedded and stored
+ */
+export interface ChunkRecord {
+  id: string;          // Stable across exports: source URL, heading breadcrumb and position within the section
+  url: string;
+  title: string;
+  headings: string[];  // Breadcrumb of the headings the chunk sits under
+  chunkIndex: number;  // Position of the chunk within its page
+  text: string;
+  hash: string;        // SHA-256 of the text, to detect changed chunks
+}
+
+/**
+ * Part of a page under one heading
+ */
+export interface Section {
+  headings: string[];
+  text: string;
+}
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Splits Markdown pages into chunks along heading boundaries, splitting large sections
+ * on paragraphs, then lines, then characters
+ */
+export class MarkdownChunker {
+  private maxChars: number;
+  private overlapChars: number;
+
+  constructor(options: ChunkOptions = {}) {
+    const scale = options.unit === 'tokens' ? CHARS_PER_TOKEN : 1;
+    this.maxChars = Math.max(1, (options.maxSize ?? 2000) * scale);
+    this.overlapChars = Math.min((options.overlap ?? 0) * scale, Math.floor(this.maxChars / 2));
+  }
+
+  /**
+   * Chunk the Markdown of one page
+   */
+  chunk(markdown: string, url: string, title: string): ChunkRecord[] {
+    const records: ChunkRecord[] = [];
+    const sectionIds = new Set<string>();
+    for (const section of this.splitSections(markdown)) {
+      // Edits elsewhere on the page leave the ids of a section's chunks alone
+      const sectionId = this.sectionId(section.headings, sectionIds);
+      for (const [part, text] of this.splitText(section.text).entries()) {
+        const chunkIndex = records.length;
+        records.push({
+          id: `${url}#${sectionId}:${part}`,
+          url,
+          title,
+          headings: section.headings,
+          chunkIndex,
+          text,
+          hash: createHash('sha256').update(text).digest('hex')
+        });
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Id of a section from its heading breadcrumb, e.g. guide/install; repeated breadcrumbs get ~2, ~3...
+   */
+  private sectionId(headings: string[], used: Set<string>): string {
+    const base = headings
+      .map(heading => heading.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, ''))
+      .join('/') || 'intro';
+
+    let id = base;
+    for (let i = 2; used.has(id); i++) {
+      id = `${base}~${i}`;
+    }
+    used.add(id);
+    return id;
+  }
+
+  /**
+   * Split Markdown at ATX headings outside code fences, tracking the heading path
+   */
+  splitSections(markdown: string): Section[] {
+    const sections: Section[] = [];
+    const path: { level: number; text: string }[] = [];
+    let lines: string[] = [];
+    let fence: string | null = null;
+
+    const flush = (last: boolean) => {
+      // A heading directly followed by a subheading stays with the subsection's text
+      if (!last && lines.every(line => !line.trim() || /^#{1,6}\s/.test(line))) {
+        return;
+      }
+      const text = lines.join('\n').trim();
+      if (text) {
+        sections.push({ headings: path.map(heading => heading.text), text });
+      }
+      lines = [];
+    };
+
+    for (const line of markdown.split('\n')) {
+      const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(line);
+      if (fenceMatch) {
+        if (!fence) {
+          fence = fenceMatch[1];
+        } else if (fenceMatch[1].startsWith(fence)) {
+          fence = null;
+        }
+      }
+
+      const heading = fence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+      if (heading && !fenceMatch) {
+        flush(false);
+        const level = heading[1].length;
+        while (path.length > 0 && path[path.length - 1].level >= level) {
+          path.pop();
+        }
+        path.push({ level, text: heading[2] });
+      }
+      lines.push(line);
+    }
+    flush(true);
+
+    return sections;
+  }
+
+  /**
+   * Split a section into chunks no larger than the maximum size, with optional overlap
+   */
+  private splitText(text: string): string[] {
+    if (text.length <= this.maxChars) {
+      return [text];
+    }
+
+    // Leave room for the overlap carried into each following chunk
+    const room = this.overlapChars > 0 ? this.maxChars - this.overlapChars - 2 : this.maxChars;
+    const pieces = this.splitPieces(text, Math.max(1, room));
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const piece of pieces) {
+      const candidate = current ? `${current}\n\n${piece}` : piece;
+      if (current && candidate.length > this.maxChars) {
+        chunks.push(current);
+        current = `${this.tail(current)}${piece}`;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+
+  /**
+   * Break text into paragraphs no larger than maxLength, keeping code blocks together where possible
+   */
+  private splitPieces(text: string, maxLength: number): string[] {
+    const pieces: string[] = [];
+    for (const paragraph of this.paragraphs(text)) {
+      if (paragraph.length <= maxLength) {
+        pieces.push(paragraph);
+        continue;
+      }
+      // Too long: split on lines, then hard-split lines that are still too long
+      let current = '';
+      for (const line of paragraph.split('\n')) {
+        for (let start = 0; start < Math.max(line.length, 1); start += maxLength) {
+          const part = line.slice(start, start + maxLength);
+          if (current && current.length + part.length + 1 > maxLength) {
+            pieces.push(current);
+            current = part;
+          } else {
+            current = current ? `${current}\n${part}` : part;
+          }
+        }
+      }
+      if (current) {
+        pieces.push(current);
+      }
+    }
+    return pieces;
+  }
+
+  /**
+   * Paragraphs separated by blank lines; blank lines inside code fences do not split
+   */
+  private paragraphs(text: string): string[] {
+    const paragraphs: string[] = [];
+    let lines: string[] = [];
+    let inFence = false;
+
+    for (const line of text.split('\n')) {
+      if (/^\s*(`{3,}|~{3,})/.test(line)) {
+        inFence = !inFence;
+      }
+      if (!inFence && line.trim() === '') {
+        if (lines.length > 0) {
+          paragraphs.push(lines.join('\n'));
+          lines = [];
+        }
+        continue;
+      }
+      lines.push(line);
+    }
+    if (lines.length > 0) {
+      paragraphs.push(lines.join('\n'));
+    }
+    return paragraphs;
+  }
+
+  /**
+   * End of a chunk to repeat at the start of the next one, starting at a line or word boundary
+   */
+  private tail(chunk: string): string {
+    if (this.overlapChars <= 0) {
+      return '';
+    }
+    const tail = chunk.slice(-this.overlapChars);
+    const newline = tail.indexOf('\n');
+    const boundary = newline > 0 ? newline : tail.search(/\s/);
+    const trimmed = (boundary > 0 ? tail.slice(boundary) : tail).trim();
+    return trimmed ? `${trimmed}\n\n` : '';
+  }
+}
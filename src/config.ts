@@ -0,0 +1,544 @@
+import { existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { CrawlerConfig } from './interfaces.js';
+import { CONTENT_PRESETS, splitSelectorList } from './extractor.js';
+import { PAGE_SIZE_PATTERN } from './pdf.js';
+import { splitPatterns, UrlPatterns } from './patterns.js';
+import { parseHeader, resolveAuthorization } from './session.js';
+
+/**
+ * Config file names looked up in the working directory, in order
+ */
+export const CONFIG_FILES = [
+  'doc-export.config.ts',
+  'doc-export.config.js',
+  'doc-export.config.json',
+  'doc-export.config.yaml',
+  'doc-export.config.yml'
+];
+
+/**
+ * Settings accepted in a config file: CrawlerConfig fields, plus the report format
+ */
+export type ConfigValues = Partial<Omit<CrawlerConfig, 'sitemapSince' | 'fetcher'>> & {
+  sitemapSince?: string | Date;
+  report?: 'markdown' | 'html';
+};
+
+/**
+ * A documentation site to export, with its seed URLs and settings
+ */
+export interface SourceConfig extends ConfigValues {
+  urls: string[];
+}
+
+/**
+ * A named selection of sources, exported together or one by one
+ */
+export interface ProfileConfig extends ConfigValues {
+  sources?: string[];  // Source names (default: all sources)
+  combine?: boolean;   // Crawl all sources into one export instead of one export per source
+}
+
+/**
+ * Contents of doc-export.config.{ts,js,json,yaml}
+ */
+export interface ExportConfigFile {
+  defaults?: ConfigValues;
+  sources: Record<string, SourceConfig>;
+  profiles?: Record<string, ProfileConfig>;
+}
+
+/**
+ * A source resolved for crawling
+ */
+export interface ExportSource {
+  name: string;
+  urls: string[];
+  config: CrawlerConfig; // Crawl and content extraction settings for this source
+}
+
+/**
+ * One export: the sources to crawl and where and how to write them
+ */
+export interface ExportJob {
+  name: string;
+  config: CrawlerConfig; // Output settings
+  sources: ExportSource[];
+  report?: 'markdown' | 'html';
+}
+
+/**
+ * Invalid option value or config file
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'plugin[]';
+
+const FIELD_TYPES: Record<keyof ConfigValues, FieldType> = {
+  maxConcurrency: 'number',
+  sameDomain: 'boolean',
+  allowedDomains: 'string[]',
+  outputDir: 'string',
+  maxUrlsPerDomain: 'number',
+  maxTotalUrls: 'number',
+  maxConcurrencyPerHost: 'number',
+  requestTimeout: 'number',
+  maxRunTime: 'number',
+  splitPages: 'string',
+  allowedPrefixes: 'string[]',
+  ignorePrefixes: 'string[]',
+  includePatterns: 'string[]',
+  excludePatterns: 'string[]',
+  maxDepth: 'number',
+  frontierOrder: 'string',
+  respectRobots: 'boolean',
+  crawlDelay: 'number',
+  useSitemap: 'boolean',
+  sitemapSince: 'string',
+  contentSelector: 'string',
+  removeSelectors: 'string[]',
+  contentPreset: 'string',
+  stateDir: 'string',
+  resume: 'boolean',
+  cacheDir: 'string',
+  localDir: 'string',
+  warcInput: 'string',
+  warcOutput: 'string',
+  userAgent: 'string',
+  headers: 'string[]',
+  auth: 'string',
+  authDomains: 'string[]',
+  cookieFile: 'string',
+  proxy: 'string',
+  noProxy: 'string[]',
+  maxRetries: 'number',
+  retryDelay: 'number',
+  uncrawledLinkMarker: 'string',
+  downloadAssets: 'boolean',
+  maxAssetSize: 'number',
+  assetTypes: 'string[]',
+  outputFormat: 'string',
+  pdfPageSize: 'string',
+  pdfMargin: 'number',
+  pdfCover: 'boolean',
+  pdfFont: 'string',
+  llmsLinks: 'string',
+  chunkSize: 'number',
+  chunkUnit: 'string',
+  chunkOverlap: 'number',
+  navSelector: 'string',
+  plugins: 'plugin[]',
+  ignoreTrailingSlash: 'boolean',
+  indexFiles: 'string[]',
+  ignoreCase: 'boolean',
+  keepQueryParams: 'string[]',
+  useCanonical: 'boolean',
+  dedupeContent: 'boolean',
+  nearDuplicates: 'boolean',
+  report: 'string'
+};
+
+// Paths in a config file are relative to the file, not to the working directory
+const PATH_FIELDS = ['outputDir', 'stateDir', 'cacheDir', 'pdfFont', 'localDir', 'warcInput', 'warcOutput', 'cookieFile'] as const;
+
+/**
+ * Whether the runtime can import TypeScript files: Bun, or Node with type stripping
+ */
+function canImportTypeScript(): boolean {
+  return !!process.versions.bun || !!(process.features as { typescript?: unknown }).typescript;
+}
+
+/**
+ * Find a config file in a directory; where .ts files cannot be imported, other formats are preferred
+ */
+export async function findConfigFile(dir: string): Promise<string | null> {
+  let fallback: string | null = null;
+  for (const name of CONFIG_FILES) {
+    try {
+      await fs.access(path.join(dir, name));
+    } catch (e) {
+      continue; // Try the next name
+    }
+    if (name.endsWith('.ts') && !canImportTypeScript()) {
+      // Only used when it is the sole config file, so loading it reports why it cannot be read
+      fallback ??= path.join(dir, name);
+      continue;
+    }
+    return path.join(dir, name);
+  }
+  return fallback;
+}
+
+/**
+ * Read and check a config file; .ts and .js files must default-export the config object
+ */
+export async function loadConfigFile(file: string): Promise<ExportConfigFile> {
+  const extension = path.extname(file).toLowerCase();
+  let data: unknown;
+
+  if (extension === '.ts' && !canImportTypeScript()) {
+    throw new ConfigError(`${file}: TypeScript config files need Bun (bunx doc-export) or Node with type stripping; use a .js, .json or .yaml config instead`);
+  }
+  try {
+    if (extension === '.ts' || extension === '.js' || extension === '.mjs') {
+      const module = await import(pathToFileURL(path.resolve(file)).href);
+      data = module.default ?? module.config;
+    } else {
+      const text = await fs.readFile(file, 'utf-8');
+      data = extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+    }
+  } catch (error) {
+    throw new ConfigError(`Could not read ${file}: ${(error as Error).message}`);
+  }
+
+  if (!isObject(data)) {
+    throw new ConfigError(`${file}: expected an object with "sources"`);
+  }
+  for (const key of Object.keys(data)) {
+    if (key !== 'defaults' && key !== 'sources' && key !== 'profiles') {
+      throw new ConfigError(`${file}: unknown key "${key}" (expected "defaults", "sources" and "profiles")`);
+    }
+  }
+  if (!isObject(data.sources) || Object.keys(data.sources).length === 0) {
+    throw new ConfigError(`${file}: "sources" must be an object with at least one source`);
+  }
+
+  const baseDir = path.dirname(path.resolve(file));
+  const config: ExportConfigFile = { sources: {} };
+
+  if (data.defaults !== undefined) {
+    config.defaults = checkValues(data.defaults, `${file}: defaults`, baseDir, []);
+  }
+
+  for (const [name, source] of Object.entries(data.sources)) {
+    const where = `${file}: source "${name}"`;
+    const values = checkValues(source, where, baseDir, ['urls']) as SourceConfig;
+    const urls = isObject(source) ? source.urls : undefined;
+    if (!Array.isArray(urls) || urls.length === 0 || !urls.every(url => typeof url === 'string')) {
+      throw new ConfigError(`${where}: "urls" must be a non-empty list of seed URLs`);
+    }
+    for (const url of urls as string[]) {
+      if (!URL.canParse(url)) {
+        throw new ConfigError(`${where}: invalid seed URL "${url}"`);
+      }
+    }
+    config.sources[name] = { ...values, urls: urls as string[] };
+  }
+
+  if (data.profiles !== undefined) {
+    if (!isObject(data.profiles)) {
+      throw new ConfigError(`${file}: "profiles" must be an object`);
+    }
+    config.profiles = {};
+    for (const [name, profile] of Object.entries(data.profiles)) {
+      const where = `${file}: profile "${name}"`;
+      const values = checkValues(profile, where, baseDir, ['sources', 'combine']) as ProfileConfig;
+      const sources = isObject(profile) ? profile.sources : undefined;
+      if (sources !== undefined) {
+        if (!Array.isArray(sources) || !sources.every(source => typeof source === 'string')) {
+          throw new ConfigError(`${where}: "sources" must be a list of source names`);
+        }
+        const unknown = sources.find(source => !config.sources[source]);
+        if (unknown) {
+          throw new ConfigError(`${where}: unknown source "${unknown}"`);
+        }
+        values.sources = sources;
+      }
+      const combine = isObject(profile) ? profile.combine : undefined;
+      if (combine !== undefined && typeof combine !== 'boolean') {
+        throw new ConfigError(`${where}: "combine" must be true or false`);
+      }
+      values.combine = combine;
+      config.profiles[name] = values;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Turn a config file and profile into export jobs. Settings are layered, later ones winning:
+ * built-in defaults, "defaults", the profile, the source, then options given on the command line.
+ * A profile name that matches no profile but a source runs just that source.
+ */
+export function resolveJobs(
+  file: ExportConfigFile,
+  profileName: string | undefined,
+  base: CrawlerConfig,
+  overrides: ConfigValues
+): ExportJob[] {
+  let profile: ProfileConfig = {};
+  let sourceNames = Object.keys(file.sources);
+
+  if (profileName) {
+    if (file.profiles?.[profileName]) {
+      profile = file.profiles[profileName];
+      sourceNames = profile.sources ?? sourceNames;
+    } else if (file.sources[profileName]) {
+      sourceNames = [profileName];
+    } else {
+      const available = [...Object.keys(file.profiles ?? {}), ...Object.keys(file.sources)];
+      throw new ConfigError(`Unknown profile "${profileName}" (available: ${available.join(', ')})`);
+    }
+  }
+
+  const { sources: _sources, combine, ...profileValues } = profile;
+  const { outputDir: overrideDir, ...overrideValues } = overrides;
+  const layers = [file.defaults ?? {}, profileValues];
+  const baseDir = overrideDir ?? profileValues.outputDir ?? file.defaults?.outputDir;
+
+  if (combine) {
+    if (!baseDir) {
+      throw new ConfigError(`Profile "${profileName}": set "outputDir" or pass --output`);
+    }
+    const job = toJob(profileName!, `Profile "${profileName}"`, [base, ...layers, overrideValues], baseDir);
+    job.sources = sourceNames.map(name => {
+      const { urls, ...values } = file.sources[name];
+      const source = toJob(name, `Source "${name}"`, [base, ...layers, values, overrideValues], baseDir);
+      return { name, urls, config: source.config };
+    });
+    return [job];
+  }
+
+  return sourceNames.map(name => {
+    const { urls, ...values } = file.sources[name];
+    // Several sources exported one by one go to a folder each under the shared output directory
+    const outputDir = sourceNames.length === 1 && overrideDir
+      ? overrideDir
+      : values.outputDir ?? (baseDir ? path.join(baseDir, name) : undefined);
+    if (!outputDir) {
+      throw new ConfigError(`Source "${name}": set "outputDir" or pass --output`);
+    }
+    const job = toJob(name, `Source "${name}"`, [base, ...layers, values, overrideValues], outputDir);
+    job.sources = [{ name, urls, config: job.config }];
+    return job;
+  });
+}
+
+/**
+ * Check the option values of a parsed config or CLI options, throwing a ConfigError for the first problem
+ */
+export function validateConfig(config: CrawlerConfig): void {
+  if (!['markdown', 'pdf', 'epub', 'jsonl', 'llms'].includes(config.outputFormat ?? 'markdown')) {
+    throw new ConfigError('Format must be "markdown", "pdf", "epub", "jsonl" or "llms"');
+  }
+
+  if (config.splitPages && !['none', 'subdirectories', 'flat'].includes(config.splitPages)) {
+    throw new ConfigError('Split pages mode must be "none", "subdirectories" or "flat"');
+  }
+
+  if (config.llmsLinks && config.llmsLinks !== 'live' && config.llmsLinks !== 'files') {
+    throw new ConfigError('llms.txt links must be "live" or "files"');
+  }
+
+  if (config.chunkUnit && config.chunkUnit !== 'chars' && config.chunkUnit !== 'tokens') {
+    throw new ConfigError('Chunk unit must be "chars" or "tokens"');
+  }
+
+  if (config.chunkSize !== undefined && (isNaN(config.chunkSize) || config.chunkSize <= 0)) {
+    throw new ConfigError('Chunk size must be a positive number');
+  }
+
+  if (config.chunkOverlap !== undefined &&
+      (isNaN(config.chunkOverlap) || config.chunkOverlap < 0 || config.chunkOverlap >= (config.chunkSize ?? 2000))) {
+    throw new ConfigError('Chunk overlap must be zero or a positive number smaller than the chunk size');
+  }
+
+  if (config.pdfPageSize && !PAGE_SIZE_PATTERN.test(config.pdfPageSize)) {
+    throw new ConfigError(`Unknown PDF page size "${config.pdfPageSize}"`);
+  }
+
+  if (config.pdfMargin !== undefined && (isNaN(config.pdfMargin) || config.pdfMargin < 0)) {
+    throw new ConfigError('PDF margin must be zero or a positive number');
+  }
+
+  if (config.contentPreset && config.contentPreset !== 'auto' && config.contentPreset !== 'none' &&
+      !CONTENT_PRESETS.some(preset => preset.name === config.contentPreset)) {
+    throw new ConfigError(`Unknown content preset "${config.contentPreset}"`);
+  }
+
+  if (config.sitemapSince && isNaN(config.sitemapSince.getTime())) {
+    throw new ConfigError('--sitemap-since must be a valid date');
+  }
+
+  if (isNaN(config.maxConcurrency) || config.maxConcurrency <= 0) {
+    throw new ConfigError('Concurrency must be a positive number');
+  }
+
+  if (config.maxUrlsPerDomain !== undefined && (isNaN(config.maxUrlsPerDomain) || config.maxUrlsPerDomain <= 0)) {
+    throw new ConfigError('Max URLs per domain must be a positive number');
+  }
+
+  if (config.maxTotalUrls !== undefined && (isNaN(config.maxTotalUrls) || config.maxTotalUrls <= 0)) {
+    throw new ConfigError('Max total URLs must be a positive number');
+  }
+
+  if (config.maxConcurrencyPerHost !== undefined && (isNaN(config.maxConcurrencyPerHost) || config.maxConcurrencyPerHost <= 0)) {
+    throw new ConfigError('Concurrency per host must be a positive number');
+  }
+
+  if (config.requestTimeout !== undefined && (isNaN(config.requestTimeout) || config.requestTimeout <= 0)) {
+    throw new ConfigError('Request timeout must be a positive number');
+  }
+
+  if (config.maxRunTime !== undefined && (isNaN(config.maxRunTime) || config.maxRunTime <= 0)) {
+    throw new ConfigError('Max runtime must be a positive number');
+  }
+
+  if (config.maxDepth !== undefined && (isNaN(config.maxDepth) || config.maxDepth < 0)) {
+    throw new ConfigError('Max depth must be zero or a positive number');
+  }
+
+  if (config.frontierOrder && !['fifo', 'shallow', 'nav'].includes(config.frontierOrder)) {
+    throw new ConfigError('Frontier order must be "fifo", "shallow" or "nav"');
+  }
+
+  try {
+    new UrlPatterns(config.includePatterns, config.excludePatterns);
+  } catch (error) {
+    throw new ConfigError(`Invalid URL pattern: ${(error as Error).message}`);
+  }
+
+  if (config.warcInput && config.localDir) {
+    throw new ConfigError('Use either a WARC file or a local directory as the page source, not both');
+  }
+
+  if (config.warcInput && config.warcOutput) {
+    throw new ConfigError('A crawl replayed from a WARC file cannot be saved to another WARC file');
+  }
+
+  for (const header of config.headers ?? []) {
+    try {
+      parseHeader(header);
+    } catch (error) {
+      throw new ConfigError((error as Error).message);
+    }
+  }
+
+  if (config.auth) {
+    try {
+      resolveAuthorization(config.auth);
+    } catch (error) {
+      throw new ConfigError(`Cannot use --auth ${config.auth}: ${(error as Error).message}`);
+    }
+  }
+
+  if (config.cookieFile && !existsSync(config.cookieFile)) {
+    throw new ConfigError(`Cookie file not found: ${config.cookieFile}`);
+  }
+
+  if (config.proxy && !/^https?:\/\//i.test(config.proxy)) {
+    throw new ConfigError('Proxy must be an http:// or https:// URL');
+  }
+
+  if (config.maxRetries !== undefined && (isNaN(config.maxRetries) || config.maxRetries < 0)) {
+    throw new ConfigError('Retries must be zero or a positive number');
+  }
+
+  if (config.retryDelay !== undefined && (isNaN(config.retryDelay) || config.retryDelay < 0)) {
+    throw new ConfigError('Retry delay must be zero or a positive number');
+  }
+
+  if (config.maxAssetSize !== undefined && (isNaN(config.maxAssetSize) || config.maxAssetSize <= 0)) {
+    throw new ConfigError('Max asset size must be a positive number');
+  }
+
+  if (config.crawlDelay !== undefined && (isNaN(config.crawlDelay) || config.crawlDelay < 0)) {
+    throw new ConfigError('Crawl delay must be zero or a positive number');
+  }
+}
+
+/**
+ * Merge settings layers into a job and check the result
+ */
+function toJob(name: string, where: string, layers: ConfigValues[], outputDir: string): ExportJob {
+  const merged: ConfigValues = Object.assign({}, ...layers, { outputDir });
+  const { report, sitemapSince, ...values } = merged;
+  const config = {
+    ...values,
+    sitemapSince: typeof sitemapSince === 'string' ? new Date(sitemapSince) : sitemapSince
+  } as CrawlerConfig;
+
+  try {
+    validateConfig(config);
+  } catch (error) {
+    throw new ConfigError(`${where}: ${(error as Error).message}`);
+  }
+  if (report && report !== 'markdown' && report !== 'html') {
+    throw new ConfigError(`${where}: Report format must be "markdown" or "html"`);
+  }
+
+  return { name, config, sources: [], report };
+}
+
+/**
+ * Check the types of a settings object and resolve its paths
+ */
+function checkValues(value: unknown, where: string, baseDir: string, extraKeys: string[]): ConfigValues {
+  if (!isObject(value)) {
+    throw new ConfigError(`${where}: expected an object`);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (extraKeys.includes(key)) {
+      continue;
+    }
+    const type = FIELD_TYPES[key as keyof ConfigValues];
+    if (!type) {
+      throw new ConfigError(`${where}: unknown option "${key}"`);
+    }
+
+    // Lists may also be written as comma-separated strings, like on the command line
+    if ((type === 'string[]' || type === 'plugin[]') && typeof item === 'string') {
+      values[key] = key === 'removeSelectors'
+        ? splitSelectorList(item)
+        : key === 'includePatterns' || key === 'excludePatterns'
+          ? splitPatterns(item)
+          : key === 'headers'
+            ? [item]
+            : item.split(',').map(entry => entry.trim());
+      continue;
+    }
+
+    // Plugins are names or paths, or plugin objects in .ts and .js config files
+    const valid = type === 'string[]'
+      ? Array.isArray(item) && item.every(entry => typeof entry === 'string')
+      : type === 'plugin[]'
+        ? Array.isArray(item) && item.every(entry => typeof entry === 'string' || (isObject(entry) && typeof entry.name === 'string'))
+        : typeof item === type;
+    if (!valid) {
+      const expected = type === 'string[]' ? 'a list of strings' : type === 'plugin[]' ? 'a list of plugin names, paths or objects' : `a ${type}`;
+      throw new ConfigError(`${where}: "${key}" must be ${expected}`);
+    }
+    values[key] = item;
+  }
+
+  for (const key of PATH_FIELDS) {
+    if (typeof values[key] === 'string') {
+      values[key] = path.resolve(baseDir, values[key] as string);
+    }
+  }
+  if (Array.isArray(values.plugins)) {
+    values.plugins = values.plugins.map(plugin =>
+      typeof plugin === 'string' && plugin.startsWith('.') ? path.resolve(baseDir, plugin) : plugin);
+  }
+  if (typeof values.pdfPageSize === 'string') {
+    values.pdfPageSize = values.pdfPageSize.toUpperCase();
+  }
+
+  return values as ConfigValues;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
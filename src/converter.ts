@@ -1,12 +1,103 @@
 import TurndownService from 'turndown';
+import * as cheerio from 'cheerio';
+import { marked } from 'marked';
 import { PageData, CrawlerConfig } from './interfaces.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { ContentExtractor } from './extractor.js';
+import { AssetDownloader } from './assets.js';
+import { orderPages } from './navigation.js';
+import { PdfOptions, PdfRenderer } from './pdf.js';
+import { EpubWriter } from './epub.js';
+import { ChunkOptions, MarkdownChunker } from './chunker.js';
+import { createContext, ExportContext } from './events.js';
+import { Logger } from './logger.js';
+import { PluginHost } from './plugins.js';
+import { UrlNormalizer } from './urls.js';
+
+const MANIFEST_FILE = '.doc-export-manifest.json';
+const DRAFTS_DIR = '.doc-export-pages';
+
+// Link and image targets stay placeholders in a page's draft until every page has its place in the export.
+// The marker token contains '_' so its escaped form shows whether Turndown treated it as text or code.
+const LINK_PLACEHOLDER = 'doc-export-link:';
+const ASSET_PLACEHOLDER = 'doc-export-asset:';
+const MARKER_PLACEHOLDER = 'DocExportMark_';
+const PLACEHOLDER_PATTERN = /( ?)DocExportMark(\\?)_([0-9a-f]+)\\?_|doc-export-link:([0-9a-f]+)|doc-export-asset:/g;
+
+/**
+ * Per-URL record of the last export, used to skip unchanged files and summarize changes
+ */
+type ExportManifest = Record<string, { file: string; hash: string }>;
+
+/**
+ * Maps a crawled page URL (without fragment) and fragment to a local link target, or null if not crawled
+ */
+type LinkResolver = (url: string, fragment: string) => string | null;
+
+/**
+ * A page converted as soon as it was crawled, with placeholder link and image targets
+ */
+interface DraftPage {
+  markdown: string;
+  description: string; // From the page's meta tags
+  language?: string;   // lang attribute of the page's <html> element
+}
+
+/**
+ * Where a page is exported, used to rewrite its links and image references
+ */
+interface PageContext {
+  pageUrl: string;
+  resolveLink?: LinkResolver;
+  assetsPath?: string; // Path from the page's file to the assets folder
+}
 
 export class DocumentConverter {
   private turndownService: TurndownService;
+  private extractor: ContentExtractor;
+  private uncrawledLinkMarker?: string;
+  private assetDownloader?: AssetDownloader;
+  private assetFiles = new Map<string, string>(); // Asset URL -> file name in the assets folder
+  private exportedFiles = new Map<string, string>(); // Normalized page URL -> exported file, relative to the output directory
+  private drafts = new Map<string, string>(); // Page URL -> file holding its spooled draft
+  private pageExtractors = new Map<string, ContentExtractor>(); // Page URL -> extractor of the source it was crawled for
+  private configExtractors = new WeakMap<CrawlerConfig, ContentExtractor>(); // Source config -> its extractor
+  private pdfOptions: PdfOptions;
+  private chunkOptions: ChunkOptions;
+  private plugins: PluginHost;
+  private urls: UrlNormalizer;
+  private context: ExportContext;
+  private logger: Logger;
+
+  constructor(config?: CrawlerConfig, context?: Partial<ExportContext>) {
+    this.context = createContext(context);
+    this.logger = this.context.logger;
+    this.uncrawledLinkMarker = config?.uncrawledLinkMarker;
+    this.urls = new UrlNormalizer(config);
+    this.pdfOptions = {
+      pageSize: config?.pdfPageSize,
+      margin: config?.pdfMargin,
+      cover: config?.pdfCover,
+      font: config?.pdfFont
+    };
+    this.chunkOptions = {
+      maxSize: config?.chunkSize,
+      unit: config?.chunkUnit,
+      overlap: config?.chunkOverlap
+    };
+    if (config?.downloadAssets) {
+      this.assetDownloader = new AssetDownloader(config, this.logger);
+    }
+
+    // Main-content extraction runs before Markdown conversion
+    this.extractor = new ContentExtractor({
+      contentSelector: config?.contentSelector,
+      removeSelectors: config?.removeSelectors,
+      contentPreset: config?.contentPreset
+    });
 
-  constructor() {
     // Initialize TurndownService with custom rules
     this.turndownService = new TurndownService({
       headingStyle: 'atx',
@@ -14,43 +105,227 @@ export class DocumentConverter {
       bulletListMarker: '-'
     });
 
-    // Add custom rules for better conversion
+    // Add custom rules for better conversion, then the plugins' rules so they take precedence
     this.addCustomRules();
+    this.plugins = new PluginHost(config?.plugins, this.logger);
+    this.plugins.turndownRules(this.turndownService);
   }
 
   /**
-   * Add custom rules to improve HTML to Markdown conversion
+   * Add custom rules to improve HTML to Markdown conversion.
+   * Rules added later take precedence, so the generic style rule comes first.
    */
   private addCustomRules(): void {
-    // Improve table handling
+    // Ignore style tags and their content
+    this.turndownService.remove(['style', 'script']);
+
+    // Unwrap inline wrappers that only carry styles
+    this.turndownService.addRule('removeInlineStyles', {
+      filter: function (node) {
+        return (node.nodeName === 'SPAN' || node.nodeName === 'FONT') && node.hasAttribute && node.hasAttribute('style');
+      },
+      replacement: function (content) {
+        return content;
+      }
+    });
+
+    // GitHub-flavored pipe tables
     this.turndownService.addRule('tables', {
       filter: ['table'],
-      replacement: function (content, node) {
-        // Basic table handling - could be enhanced further
-        return '\n\n' + content + '\n\n';
+      replacement: (content, node) => {
+        const table = this.tableToMarkdown(node as HTMLElement);
+        return table ? '\n\n' + table + '\n\n' : '\n\n' + content + '\n\n';
       }
     });
 
-    // Better handling of code blocks
+    // Fenced code blocks with the detected language; inline code stays inline
     this.turndownService.addRule('codeBlocks', {
-      filter: ['pre', 'code'],
-      replacement: function (content) {
-        return '```\n' + content + '\n```';
+      filter: ['pre'],
+      replacement: (content, node) => {
+        const code = this.codeText(node as HTMLElement).replace(/\n+$/, '');
+        const language = this.detectCodeLanguage(node as HTMLElement);
+
+        // Use a longer fence if the code itself contains backtick fences
+        const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+        const fence = '`'.repeat(longestRun + 1);
+        return `\n\n${fence}${language}\n${code}\n${fence}\n\n`;
       }
     });
 
-    // Ignore style tags and their content
-    this.turndownService.remove(['style', 'script']);
+    // Admonitions and callouts become GitHub-style blockquote notes
+    this.turndownService.addRule('admonitions', {
+      filter: (node) => this.getAdmonitionType(node as HTMLElement) !== null,
+      replacement: (content, node) => this.admonitionToMarkdown(node as HTMLElement)
+    });
 
-    // Ignore inline styles
-    this.turndownService.addRule('removeInlineStyles', {
-      filter: function (node) {
-        return node.nodeName !== 'STYLE' && node.nodeName !== 'SCRIPT' && node.hasAttribute && node.hasAttribute('style');
-      },
-      replacement: function (content) {
-        return content;
+    // Keep <details> blocks, converting their body to Markdown
+    this.turndownService.addRule('details', {
+      filter: ['details'],
+      replacement: (content, node) => {
+        const element = (node as HTMLElement).cloneNode(true) as HTMLElement;
+        const summary = element.querySelector('summary');
+        const summaryText = summary ? this.inlineMarkdown(summary) : 'Details';
+        summary?.remove();
+
+        const body = this.turndownService.turndown(element.innerHTML).trim();
+        return `\n\n<details>\n<summary>${summaryText}</summary>\n\n${body}\n\n</details>\n\n`;
+      }
+    });
+  }
+
+  /**
+   * Render a table as a GFM pipe table. Colspan and rowspan cells are padded with empty cells,
+   * and multi-line cell content is joined with <br>. Returns null for tables without cells.
+   */
+  private tableToMarkdown(table: HTMLElement): string | null {
+    const rows: HTMLElement[] = [];
+    for (const child of Array.from(table.children)) {
+      if (child.nodeName === 'TR') {
+        rows.push(child as HTMLElement);
+      } else if (['THEAD', 'TBODY', 'TFOOT'].includes(child.nodeName)) {
+        rows.push(...Array.from(child.children).filter(row => row.nodeName === 'TR') as HTMLElement[]);
+      }
+    }
+
+    // Lay the cells out on a grid, reserving the slots covered by rowspan
+    const grid: string[][] = [];
+    const alignments: string[] = [];
+    rows.forEach((row, rowIndex) => {
+      grid[rowIndex] = grid[rowIndex] ?? [];
+      const cells = Array.from(row.children).filter(cell => cell.nodeName === 'TD' || cell.nodeName === 'TH') as HTMLElement[];
+
+      let column = 0;
+      for (const cell of cells) {
+        while (grid[rowIndex][column] !== undefined) column++;
+
+        const colspan = Math.max(1, parseInt(cell.getAttribute('colspan') ?? '1') || 1);
+        const rowspan = Math.max(1, parseInt(cell.getAttribute('rowspan') ?? '1') || 1);
+        const text = this.inlineMarkdown(cell).replace(/\|/g, '\\|');
+
+        if (alignments[column] === undefined) {
+          alignments[column] = (cell.getAttribute('align') ?? cell.style?.textAlign ?? '').toLowerCase();
+        }
+
+        for (let r = 0; r < rowspan && rowIndex + r < rows.length; r++) {
+          grid[rowIndex + r] = grid[rowIndex + r] ?? [];
+          for (let c = 0; c < colspan; c++) {
+            grid[rowIndex + r][column + c] = r === 0 && c === 0 ? text : '';
+          }
+        }
+        column += colspan;
       }
     });
+
+    const width = Math.max(0, ...grid.map(row => row.length));
+    if (width === 0) {
+      return null;
+    }
+
+    const formatRow = (row: string[]) => '| ' + Array.from({ length: width }, (_, i) => row[i] ?? '').join(' | ') + ' |';
+    const separator = '| ' + Array.from({ length: width }, (_, i) => {
+      const align = alignments[i];
+      if (align === 'center') return ':---:';
+      if (align === 'right') return '---:';
+      if (align === 'left') return ':---';
+      return '---';
+    }).join(' | ') + ' |';
+
+    // GFM needs exactly one header row, so the first row is always used as the header
+    const lines = [formatRow(grid[0]), separator, ...grid.slice(1).map(formatRow)];
+    return lines.join('\n');
+  }
+
+  /**
+   * Convert an element to single-line Markdown, suitable for a table cell or summary
+   */
+  private inlineMarkdown(element: HTMLElement): string {
+    return this.turndownService.turndown(element.innerHTML)
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line)
+      .join('<br>');
+  }
+
+  /**
+   * Get the text of a code block, treating <br> as a line break
+   */
+  private codeText(node: Node): string {
+    if (node.nodeType === 3) {
+      return node.nodeValue ?? '';
+    }
+    if (node.nodeName === 'BR') {
+      return '\n';
+    }
+    return Array.from(node.childNodes).map(child => this.codeText(child)).join('');
+  }
+
+  /**
+   * Detect the language of a code block from language-xxx/lang-xxx/highlight-xxx classes or data-lang
+   */
+  private detectCodeLanguage(pre: HTMLElement): string {
+    const candidates: (Element | null)[] = [pre.querySelector('code'), pre, pre.parentElement, pre.parentElement?.parentElement ?? null];
+    for (const element of candidates) {
+      if (!element) continue;
+
+      const dataLang = element.getAttribute('data-lang') ?? element.getAttribute('data-language');
+      if (dataLang) {
+        return dataLang.trim().toLowerCase();
+      }
+
+      const match = (element.getAttribute('class') ?? '').match(/(?:^|\s)(?:language|lang|highlight(?:-source)?)-([\w+#-]+)/);
+      if (match && match[1] !== 'default') {
+        return match[1].toLowerCase();
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Get the GitHub alert type for an admonition/callout element, or null if it is not one
+   */
+  private getAdmonitionType(node: HTMLElement): string | null {
+    if (!['DIV', 'ASIDE', 'SECTION', 'BLOCKQUOTE'].includes(node.nodeName)) {
+      return null;
+    }
+
+    const classes = (node.getAttribute('class') ?? '').toLowerCase();
+    if (!/(^|[\s_-])(admonition|callout|custom-block|hint|alert)([\s_-]|$)/.test(classes)) {
+      return null;
+    }
+
+    const types: [RegExp, string][] = [
+      [/danger|error|caution/, 'CAUTION'],
+      [/warning|warn|attention/, 'WARNING'],
+      [/important/, 'IMPORTANT'],
+      [/tip|success/, 'TIP']
+    ];
+    const typeHints = classes.replace(/admonition|callout|custom-block|hint|alert/g, '');
+    for (const [pattern, type] of types) {
+      if (pattern.test(typeHints)) {
+        return type;
+      }
+    }
+    return 'NOTE';
+  }
+
+  /**
+   * Render an admonition as a blockquote note, keeping a custom title in bold
+   */
+  private admonitionToMarkdown(node: HTMLElement): string {
+    const type = this.getAdmonitionType(node)!;
+    const element = node.cloneNode(true) as HTMLElement;
+
+    const titleElement = element.querySelector('.admonition-title, .custom-block-title, [class*="admonitionHeading"], .callout-title');
+    const title = titleElement?.textContent?.trim() ?? '';
+    titleElement?.remove();
+
+    let body = this.turndownService.turndown(element.innerHTML).trim();
+    if (title && title.toUpperCase() !== type && !/^(note|info|tip|warning|danger|caution|important)$/i.test(title)) {
+      body = `**${title}**\n\n${body}`;
+    }
+
+    const quoted = body.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+    return `\n\n> [!${type}]\n${quoted}\n\n`;
   }
 
   /**
@@ -65,12 +340,127 @@ export class DocumentConverter {
       .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '');
   }
 
+  /**
+   * Use the content selectors of another config for some pages, e.g. the pages of one source in a combined export
+   */
+  public setPageExtractor(urls: string[], config: CrawlerConfig): void {
+    const extractor = this.configExtractors.get(config) ?? new ContentExtractor({
+      contentSelector: config.contentSelector,
+      removeSelectors: config.removeSelectors,
+      contentPreset: config.contentPreset
+    });
+    this.configExtractors.set(config, extractor);
+    for (const url of urls) {
+      this.pageExtractors.set(url, extractor);
+    }
+  }
+
   /**
    * Convert HTML to Markdown
    */
-  public convertToMarkdown(html: string): string {
+  public convertToMarkdown(html: string, context?: PageContext): string {
+    const draft = this.draftMarkdown(html, context?.pageUrl, !!context, !!context?.assetsPath);
+    return this.finishMarkdown(draft, context?.pageUrl, context?.resolveLink, context?.assetsPath);
+  }
+
+  /**
+   * Convert a page as soon as it is crawled and spool the result to disk, so its HTML does not have to
+   * stay in memory. processPages and the generate methods assemble the export from the spooled pages.
+   */
+  public async addPage(page: PageData, outputDir: string): Promise<void> {
+    if (this.drafts.has(page.url)) {
+      return;
+    }
+    const draft = await this.draftPage(page, outputDir);
+    const draftsDir = path.join(outputDir, DRAFTS_DIR);
+    await fs.mkdir(draftsDir, { recursive: true });
+    const file = path.join(draftsDir, createHash('sha1').update(page.url).digest('hex') + '.json');
+    await fs.writeFile(file, JSON.stringify(draft), 'utf-8');
+    this.drafts.set(page.url, file);
+  }
+
+  /**
+   * Remove the spooled pages once the export is written
+   */
+  public async discardDrafts(outputDir: string): Promise<void> {
+    this.drafts.clear();
+    await fs.rm(path.join(outputDir, DRAFTS_DIR), { recursive: true, force: true });
+  }
+
+  /**
+   * Draft of a page: the spooled one, or converted now for pages that still carry their HTML
+   */
+  private async loadDraft(page: PageData, outputDir: string): Promise<DraftPage> {
+    const file = this.drafts.get(page.url);
+    return file ? JSON.parse(await fs.readFile(file, 'utf-8')) : this.draftPage(page, outputDir);
+  }
+
+  /**
+   * Download a page's images and convert it to Markdown whose links and images point at placeholders
+   */
+  private async draftPage(page: PageData, outputDir: string): Promise<DraftPage> {
+    if (this.assetDownloader) {
+      const contentHtml = this.extractorFor(page.url).extract(this.cleanHtml(page.content));
+      const files = await this.assetDownloader.collect(contentHtml, page.url, path.join(outputDir, 'assets'));
+      files.forEach((file, url) => this.assetFiles.set(url, file));
+    }
+
+    const $ = cheerio.load(page.content);
+    return {
+      markdown: this.draftMarkdown(page.content, page.url, true, true),
+      description: this.metaDescription($),
+      language: $('html').attr('lang')
+    };
+  }
+
+  /**
+   * Convert HTML to Markdown, pointing links and downloaded images at placeholders when asked
+   */
+  private draftMarkdown(html: string, pageUrl: string | undefined, links: boolean, images: boolean): string {
     const cleanedHtml = this.cleanHtml(html);
-    return this.turndownService.turndown(cleanedHtml);
+    let contentHtml = this.extractorFor(pageUrl).extract(cleanedHtml);
+    if (pageUrl && (links || images)) {
+      const $ = cheerio.load(contentHtml, null, false);
+      if (links) {
+        this.rewriteLinks($, pageUrl);
+      }
+      if (images && this.assetDownloader) {
+        this.rewriteImages($, pageUrl);
+      }
+      contentHtml = $.html();
+    }
+    return this.turndownService.turndown(contentHtml);
+  }
+
+  /**
+   * Replace the placeholders of a draft with the exported location of each link and image, then run the plugins.
+   * Links to pages that were not crawled stay absolute and are optionally marked.
+   */
+  private finishMarkdown(markdown: string, pageUrl?: string, resolveLink?: LinkResolver, assetsPath = 'assets'): string {
+    const targets = new Map<string, string | null>();
+    const resolve = (hex: string) => {
+      if (!targets.has(hex)) {
+        const target = new URL(Buffer.from(hex, 'hex').toString('utf-8'));
+        targets.set(hex, resolveLink?.(target.toString().split('#')[0], target.hash) ?? null);
+      }
+      return targets.get(hex)!;
+    };
+
+    const resolved = markdown.replace(PLACEHOLDER_PATTERN, (match, space, escaped, markerHex, linkHex) => {
+      if (markerHex) {
+        if (resolve(markerHex) !== null) {
+          return '';
+        }
+        // Turndown escapes link text but not code
+        return space + (escaped ? this.turndownService.escape(` ${this.uncrawledLinkMarker}`).slice(1) : this.uncrawledLinkMarker);
+      }
+      if (linkHex) {
+        const href = resolve(linkHex) ?? Buffer.from(linkHex, 'hex').toString('utf-8');
+        return href.replace(/([()])/g, '\\$1');
+      }
+      return `${assetsPath}/`;
+    });
+    return this.plugins.afterMarkdown(resolved, pageUrl);
   }
 
   /**
@@ -81,12 +471,17 @@ export class DocumentConverter {
    * - 'flat': Each page saved as a separate file in the output directory with folder name in filename
    */
   public async processPages(pages: PageData[], outputDir: string, splitPages?: 'none' | 'subdirectories' | 'flat'): Promise<string> {
-    // Sort pages (could be enhanced with more sophisticated ordering)
-    const sortedPages = [...pages].sort((a, b) => a.url.localeCompare(b.url));
+    // Follow the site's navigation order, falling back to the URL path hierarchy
+    const orderedPages = orderPages(pages, url => this.urls.normalize(url));
+    const sortedPages = orderedPages.map(({ page }) => page);
+
+    // Compare against the previous export to skip unchanged files
+    const previousManifest = await this.loadManifest(outputDir);
+    const manifest: ExportManifest = {};
 
     // Handle different page splitting options
     if (splitPages === 'subdirectories' || splitPages === 'flat') {
-      console.log(`Saving ${sortedPages.length} pages as separate markdown files...`);
+      this.logger.info(`Saving ${sortedPages.length} pages as separate markdown files...`);
 
       // Directory setup depends on mode
       let pagesDir = outputDir;
@@ -103,60 +498,91 @@ export class DocumentConverter {
       indexContent += '---\n\n';
       indexContent += '# Documentation Index\n\n';
 
-      // Process pages by folder
-      const pagesByFolder = this.groupPagesByFolder(sortedPages);
-
-      // Process each folder's pages
-      let pageIndex = 0;
-      for (const [folderName, folderPages] of Object.entries(pagesByFolder)) {
+      // Assign every page its file first, so links between pages can be rewritten
+      const entries: { page: PageData; title: string; folderName: string; pageFilePath: string; relativePath: string }[] = [];
+      const folderCounts = new Map<string, number>();
+      const tocLines: { level: number; line: string }[] = [];
+      for (let pageIndex = 0; pageIndex < orderedPages.length; pageIndex++) {
+        const { page, level } = orderedPages[pageIndex];
+        const folderName = this.getFolderName(page);
         const safeFolder = this.sanitizeString(folderName);
+        const i = folderCounts.get(folderName) ?? 0;
+        folderCounts.set(folderName, i + 1);
+        const title = page.title || `Page ${pageIndex + 1}`;
 
-        // Process each page within this folder
-        for (let i = 0; i < folderPages.length; i++) {
-          const page = folderPages[i];
-          const title = page.title || `Page ${pageIndex + 1}`;
-
-          // Create a filename based on the mode
-          let safeFilename;
-          let pageFilePath;
-
-          if (splitPages === 'flat') {
-            // For flat mode, include folder name in the filename
-            safeFilename = `${safeFolder}_${this.createSafeFilename(page.url, title, i)}`;
-            pageFilePath = path.join(outputDir, safeFilename);
-
-            // Add link to index with just the filename
-            indexContent += `${pageIndex + 1}. [${title}](${safeFilename})\n`;
-          } else {
-            // For subdirectories mode
-            safeFilename = this.createSafeFilename(page.url, title, i);
-            pageFilePath = path.join(pagesDir, safeFilename);
-
-            // Add link to index with the pages/ prefix
-            indexContent += `${pageIndex + 1}. [${title}](pages/${safeFilename})\n`;
-          }
+        // Create a filename based on the mode
+        let safeFilename;
+        let pageFilePath;
 
-          // Create individual page content
-          let pageContent = '---\n';
-          pageContent += `title: ${title}\n`;
-          pageContent += `source: ${page.url}\n`;
-          pageContent += `folder: ${folderName}\n`;
-          pageContent += `date: ${new Date().toISOString()}\n`;
-          pageContent += '---\n\n';
-          pageContent += `# ${title}\n\n`;
-          pageContent += `*Source: [${page.url}](${page.url})*\n\n`;
-          pageContent += this.convertToMarkdown(page.content);
+        if (splitPages === 'flat') {
+          // For flat mode, include folder name in the filename
+          safeFilename = `${safeFolder}_${this.createSafeFilename(page.url, title, i)}`;
+          pageFilePath = path.join(outputDir, safeFilename);
 
-          // Save the page file
-          await fs.writeFile(pageFilePath, pageContent, 'utf-8');
+          // Add link to index with just the filename
+          tocLines.push({ level, line: `[${title}](${safeFilename})` });
+        } else {
+          // For subdirectories mode
+          safeFilename = this.createSafeFilename(page.url, title, i);
+          pageFilePath = path.join(pagesDir, safeFilename);
 
-          pageIndex++;
+          // Add link to index with the pages/ prefix
+          tocLines.push({ level, line: `[${title}](pages/${safeFilename})` });
+        }
+
+        entries.push({ page, title, folderName, pageFilePath, relativePath: path.relative(outputDir, pageFilePath) });
+      }
+      indexContent += this.formatToc(tocLines);
+
+      const filesByUrl = this.indexPages(entries.map(entry => [entry.page, entry.relativePath.split(path.sep).join('/')]));
+      this.exportedFiles = filesByUrl;
+
+      for (const { page, title, folderName, pageFilePath, relativePath } of entries) {
+        // Links to crawled pages point at their files, relative to this page
+        const fromDir = path.posix.dirname(relativePath.split(path.sep).join('/'));
+        const resolveLink: LinkResolver = (url, fragment) => {
+          const target = this.lookupPage(filesByUrl, url);
+          return target === undefined ? null : path.posix.relative(fromDir, target) + fragment;
+        };
+
+        // Create individual page content
+        let pageContent = '---\n';
+        pageContent += `title: ${title}\n`;
+        pageContent += `source: ${page.url}\n`;
+        pageContent += `folder: ${folderName}\n`;
+        pageContent += `date: ${new Date().toISOString()}\n`;
+        pageContent += '---\n\n';
+        pageContent += `# ${title}\n\n`;
+        pageContent += `*Source: [${page.url}](${page.url})*\n\n`;
+        const draft = await this.loadDraft(page, outputDir);
+        pageContent += this.finishMarkdown(draft.markdown, page.url, resolveLink, path.posix.relative(fromDir, 'assets') || '.');
+
+        // Only rewrite the file if its content changed since the last export.
+        // Plugins run before hashing, so a changed plugin also rewrites the files it affects.
+        pageContent = this.applyWriteHooks(pageContent, pageFilePath, page.url);
+        const hash = this.hashContent(pageContent.replace(/^date: .*$/m, ''));
+        const previous = previousManifest[page.url];
+        manifest[page.url] = { file: relativePath, hash };
+
+        if (!previous || previous.hash !== hash || previous.file !== relativePath || !(await this.fileExists(pageFilePath))) {
+          await this.writeFile(pageFilePath, pageContent);
+        }
+        this.context.events.emit('converted', { url: page.url, title, file: pageFilePath });
+      }
+
+      // Remove files of pages that no longer exist upstream
+      const currentFiles = new Set(Object.values(manifest).map(entry => entry.file));
+      for (const [url, entry] of Object.entries(previousManifest)) {
+        if (!manifest[url] && !currentFiles.has(entry.file) && entry.file !== 'document.md') {
+          await fs.rm(path.join(outputDir, entry.file), { force: true });
         }
       }
 
       // Save the index file
       const indexPath = path.join(outputDir, 'index.md');
-      await fs.writeFile(indexPath, indexContent, 'utf-8');
+      await this.writeOutput(indexPath, indexContent);
+      await this.saveManifest(outputDir, previousManifest, manifest);
+      this.reportAssets(outputDir);
 
       return indexPath;
     } else {
@@ -167,35 +593,274 @@ export class DocumentConverter {
       markdownContent += `sources: ${pages.length} pages\n`;
       markdownContent += '---\n\n';
 
-      // Generate table of contents
-      markdownContent += '# Table of Contents\n\n';
+      // Give every page a unique anchor, used by the TOC and by links between pages
+      const anchorsByUrl = new Map<string, string>();
+      const usedAnchors = new Set<string>();
       for (let i = 0; i < sortedPages.length; i++) {
-        const page = sortedPages[i];
-        const title = page.title || `Page ${i + 1}`;
-        markdownContent += `${i + 1}. [${title}](#${title.toLowerCase().replace(/[^\w]+/g, '-')})\n`;
+        const title = sortedPages[i].title || `Page ${i + 1}`;
+        anchorsByUrl.set(sortedPages[i].url, this.createAnchor(title, usedAnchors));
       }
+      const anchorLookup = this.indexPages(sortedPages.map(page => [page, anchorsByUrl.get(page.url)!]));
+      this.exportedFiles = new Map([...anchorLookup].map(([url, anchor]) => [url, `document.md#${anchor}`]));
 
-      markdownContent += '\n---\n\n';
+      // Links to crawled pages jump to the page's anchor; heading ids are not kept, so fragments are dropped
+      const resolveLink: LinkResolver = url => {
+        const anchor = this.lookupPage(anchorLookup, url);
+        return anchor === undefined ? null : `#${anchor}`;
+      };
 
-      // Add each page content
-      for (let i = 0; i < sortedPages.length; i++) {
-        const page = sortedPages[i];
-        const title = page.title || `Page ${i + 1}`;
+      // Generate table of contents
+      markdownContent += '# Table of Contents\n\n';
+      markdownContent += this.formatToc(orderedPages.map(({ page, level }, i) => ({
+        level,
+        line: `[${page.title || `Page ${i + 1}`}](#${anchorsByUrl.get(page.url)})`
+      })));
 
-        markdownContent += `# ${title}\n\n`;
-        markdownContent += `*Source: [${page.url}](${page.url})*\n\n`;
-        markdownContent += this.convertToMarkdown(page.content);
-        markdownContent += '\n\n---\n\n';
-      }
+      markdownContent += '\n---\n\n';
 
-      // Save the combined markdown file
+      // Write the combined markdown file one page at a time
       const markdownPath = path.join(outputDir, 'document.md');
-      await fs.writeFile(markdownPath, markdownContent, 'utf-8');
+      await this.streamOutput(markdownPath, async write => {
+        await write(markdownContent);
+        for (let i = 0; i < sortedPages.length; i++) {
+          const page = sortedPages[i];
+          const title = page.title || `Page ${i + 1}`;
+
+          const draft = await this.loadDraft(page, outputDir);
+          const pageMarkdown = this.finishMarkdown(draft.markdown, page.url, resolveLink, 'assets');
+          manifest[page.url] = { file: 'document.md', hash: this.hashContent(`${title}\n${pageMarkdown}`) };
+
+          let pageContent = `<a id="${anchorsByUrl.get(page.url)}"></a>\n\n`;
+          pageContent += `# ${title}\n\n`;
+          pageContent += `*Source: [${page.url}](${page.url})*\n\n`;
+          pageContent += pageMarkdown;
+          pageContent += '\n\n---\n\n';
+          await write(pageContent, page.url);
+          this.context.events.emit('converted', { url: page.url, title, file: markdownPath });
+        }
+      });
+      await this.saveManifest(outputDir, previousManifest, manifest);
+      this.reportAssets(outputDir);
 
       return markdownPath;
     }
   }
 
+  /**
+   * Log how many images the exported pages saved to the assets folder
+   */
+  private reportAssets(outputDir: string): void {
+    if (this.assetDownloader) {
+      const uniqueFiles = new Set(this.assetFiles.values());
+      this.logger.info(`Saved ${uniqueFiles.size} images to ${path.join(outputDir, 'assets')}`);
+    }
+  }
+
+  /**
+   * Content extractor for a page: the one of its source in a combined export, otherwise the default
+   */
+  private extractorFor(pageUrl?: string): ContentExtractor {
+    return (pageUrl && this.pageExtractors.get(pageUrl)) || this.extractor;
+  }
+
+  /**
+   * Run the plugins' write hooks on a text file written in one piece
+   */
+  private applyWriteHooks(content: string, filePath: string, url?: string): string {
+    return this.plugins.beforeWrite(this.plugins.beforeWriteChunk(content, filePath, url), filePath, url);
+  }
+
+  /**
+   * Write an export text file after the plugins' write hooks
+   */
+  private async writeOutput(filePath: string, content: string): Promise<void> {
+    await this.writeFile(filePath, this.applyWriteHooks(content, filePath));
+  }
+
+  /**
+   * Write an export text file piece by piece through a temporary file, so large exports are never held in memory.
+   * Each piece goes through the plugins' beforeWriteChunk hooks, with the page URL when it holds one page.
+   * A beforeWrite hook needs the whole content, so then the file is collected in memory instead.
+   */
+  private async streamOutput(
+    filePath: string,
+    produce: (write: (text: string, url?: string) => Promise<void>) => Promise<void>
+  ): Promise<void> {
+    if (this.plugins.hasHook('beforeWrite')) {
+      const names = this.plugins.hookedBy('beforeWrite').map(name => `"${name}"`).join(', ');
+      this.logger.warn(`Building ${path.basename(filePath)} in memory for the beforeWrite hook of ${names}; use beforeWriteChunk to keep it streamed`);
+      let content = '';
+      await produce(async (text, url) => {
+        content += this.plugins.beforeWriteChunk(text, filePath, url);
+      });
+      return this.writeFile(filePath, this.plugins.beforeWrite(content, filePath));
+    }
+
+    const tempPath = `${filePath}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await produce(async (text, url) => {
+        await handle.write(this.plugins.beforeWriteChunk(text, filePath, url), null, 'utf-8');
+      });
+    } catch (error) {
+      await handle.close();
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+    await handle.close();
+    await fs.rename(tempPath, filePath);
+    this.context.events.emit('written', { path: filePath });
+  }
+
+  /**
+   * Write an export file and announce it
+   */
+  private async writeFile(filePath: string, content: string): Promise<void> {
+    await fs.writeFile(filePath, content, 'utf-8');
+    this.context.events.emit('written', { path: filePath });
+  }
+
+  /**
+   * Point images at their local copies; inline SVGs are replaced by images of the saved files
+   */
+  private rewriteImages($: cheerio.CheerioAPI, pageUrl: string): void {
+    $('img').each((_, img) => {
+      const source = AssetDownloader.imageSource($, img, pageUrl);
+      const file = source ? this.assetFiles.get(source) : undefined;
+      if (file) {
+        $(img).attr('src', ASSET_PLACEHOLDER + file).removeAttr('srcset').removeAttr('data-src');
+      } else if (source) {
+        // Skipped or failed downloads keep their remote URL
+        $(img).attr('src', source);
+      }
+    });
+
+    for (const svg of AssetDownloader.inlineSvgs($)) {
+      if (!$(svg).attr('xmlns')) {
+        $(svg).attr('xmlns', 'http://www.w3.org/2000/svg');
+      }
+      const file = AssetDownloader.inlineSvgFile($.html(svg));
+      if (this.assetFiles.has(`inline:${file}`)) {
+        const alt = $(svg).attr('aria-label') ?? $(svg).find('title').first().text();
+        $(svg).replaceWith($('<img>').attr({ src: ASSET_PLACEHOLDER + file, alt }));
+      }
+    }
+  }
+
+  /**
+   * Point links at placeholders of their absolute URL, resolved by finishMarkdown.
+   * When uncrawled links are marked, each link also gets a placeholder for the marker.
+   */
+  private rewriteLinks($: cheerio.CheerioAPI, pageUrl: string): void {
+    $('a[href]').each((_, element) => {
+      const href = $(element).attr('href')!;
+      let target: URL;
+      try {
+        target = new URL(href, pageUrl);
+      } catch (e) {
+        return;
+      }
+      if (!target.protocol.startsWith('http') && target.protocol !== 'file:') {
+        return;
+      }
+
+      const hex = Buffer.from(target.toString(), 'utf-8').toString('hex');
+      $(element).attr('href', LINK_PLACEHOLDER + hex);
+      if (this.uncrawledLinkMarker) {
+        $(element).append(` ${MARKER_PLACEHOLDER}${hex}_`);
+      }
+    });
+  }
+
+  /**
+   * Index values by the normalized URL of each page and of its aliases, for lookupPage
+   */
+  private indexPages<T>(entries: [PageData, T][]): Map<string, T> {
+    const index = new Map<string, T>();
+    for (const [page, value] of entries) {
+      for (const url of [page.url, ...(page.aliases ?? [])]) {
+        const key = this.urls.normalize(url);
+        if (!index.has(key)) {
+          index.set(key, value);
+        }
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Find a crawled page in an index from indexPages, by any URL that normalizes to the page or one of its aliases
+   */
+  private lookupPage<T>(pages: Map<string, T>, url: string): T | undefined {
+    return pages.get(this.urls.normalize(url));
+  }
+
+  /**
+   * Create a unique anchor id from a title
+   */
+  private createAnchor(title: string, used: Set<string>): string {
+    const base = title
+      .toLowerCase()
+      .replace(/[^\w]+/g, '-')
+      .replace(/^-|-$/g, '') || 'page';
+
+    let anchor = base;
+    for (let i = 1; used.has(anchor); i++) {
+      anchor = `${base}-${i}`;
+    }
+    used.add(anchor);
+    return anchor;
+  }
+
+  /**
+   * Load the manifest of the previous export, or an empty one
+   */
+  private async loadManifest(outputDir: string): Promise<ExportManifest> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(outputDir, MANIFEST_FILE), 'utf-8'));
+    } catch (e) {
+      return {};
+    }
+  }
+
+  /**
+   * Save the manifest and print a summary of added, changed and removed pages
+   */
+  private async saveManifest(outputDir: string, previous: ExportManifest, current: ExportManifest): Promise<void> {
+    const added = Object.keys(current).filter(url => !previous[url]);
+    const changed = Object.keys(current).filter(url => previous[url] && previous[url].hash !== current[url].hash);
+    const removed = Object.keys(previous).filter(url => !current[url]);
+    const unchanged = Object.keys(current).length - added.length - changed.length;
+
+    if (Object.keys(previous).length > 0) {
+      this.logger.info(`Changes since last export: ${added.length} added, ${changed.length} changed, ${removed.length} removed, ${unchanged} unchanged`);
+      added.forEach(url => this.logger.info(`  + ${url}`));
+      changed.forEach(url => this.logger.info(`  ~ ${url}`));
+      removed.forEach(url => this.logger.info(`  - ${url}`));
+    }
+
+    await fs.writeFile(path.join(outputDir, MANIFEST_FILE), JSON.stringify(current, null, 2), 'utf-8');
+  }
+
+  /**
+   * Hash content for change detection
+   */
+  private hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Check whether a file exists
+   */
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
   /**
    * Create a safe filename from URL and title
    */
@@ -234,34 +899,34 @@ export class DocumentConverter {
   }
 
   /**
-   * Group pages by their URL domain and path (folder)
+   * Render table of contents entries as a nested numbered list
    */
-  private groupPagesByFolder(pages: PageData[]): Record<string, PageData[]> {
-    const result: Record<string, PageData[]> = {};
-
-    for (const page of pages) {
-      try {
-        const url = new URL(page.url);
-        // Use pathname as the folder name, or 'unknown' if it can't be determined
-        const folderName = url.pathname.split('/').slice(0, 2).join('_') || 'unknown';
-
-        if (!result[folderName]) {
-          result[folderName] = [];
-        }
-
-        result[folderName].push(page);
-      } catch (e) {
-        // If URL parsing fails, put in 'unknown' folder
-        if (!result['unknown']) {
-          result['unknown'] = [];
-        }
-        result['unknown'].push(page);
-      }
+  private formatToc(entries: { level: number; line: string }[]): string {
+    const counters: number[] = [];
+    let toc = '';
+    for (const { level, line } of entries) {
+      counters.length = level + 1;
+      counters[level] = (counters[level] ?? 0) + 1;
+      toc += `${'   '.repeat(level)}${counters[level]}. ${line}\n`;
     }
+    return toc;
+  }
 
-    return result;
+  /**
+   * Folder of a page, from the first segment of its URL path
+   */
+  private getFolderName(page: PageData): string {
+    try {
+      const url = new URL(page.url);
+      // Use pathname as the folder name, or 'unknown' if it can't be determined
+      return url.pathname.split('/').slice(0, 2).join('_') || 'unknown';
+    } catch (e) {
+      // If URL parsing fails, put in 'unknown' folder
+      return 'unknown';
+    }
   }
 
+
   /**
    * Sanitize a string for use in filenames
    */
@@ -274,14 +939,165 @@ export class DocumentConverter {
   }
 
   /**
-   * For now, just save the markdown file and notify the user
-   * In a production environment, this would be replaced with a proper PDF generation
+   * Write llms.txt, an index of the pages grouped by folder with one-line descriptions, and llms-full.txt
+   * with the Markdown of every page. Links point at the live pages, or at the exported Markdown files.
    */
-  public async generatePDF(markdownPath: string, outputDir: string): Promise<string> {
-    // For now, just return the markdown path
-    console.log('PDF generation is currently disabled. Using markdown output instead.');
-    console.log(`You can convert "${markdownPath}" to PDF using an external tool.`);
+  public async generateLLMS(pages: PageData[], outputDir: string, links: 'live' | 'files' = 'live'): Promise<string> {
+    const orderedPages = orderPages(pages, url => this.urls.normalize(url)).map(({ page }) => page);
+    const seedPage = orderedPages.find(page => page.depth === 0) ?? orderedPages[0];
+    const seedDraft = seedPage ? await this.loadDraft(seedPage, outputDir) : undefined;
+
+    const siteTitle = seedPage?.title || 'Exported Documentation';
+    const summary = seedDraft
+      ? seedDraft.description || this.firstParagraph(this.finishMarkdown(seedDraft.markdown, seedPage.url))
+      : '';
+
+    let index = `# ${siteTitle}\n\n`;
+    let header = `# ${siteTitle}\n\n`;
+    if (summary) {
+      index += `> ${summary}\n\n`;
+      header += `> ${summary}\n\n`;
+    }
+
+    // One section per folder, in the order the folders first appear.
+    // llms-full.txt is written as the pages are read, holding back the last piece to trim its end.
+    const sections = new Map<string, string[]>();
+    await this.streamOutput(path.join(outputDir, 'llms-full.txt'), async write => {
+      let pending = header;
+      let pendingUrl: string | undefined;
+      for (let i = 0; i < orderedPages.length; i++) {
+        const page = orderedPages[i];
+        const title = page.title || `Page ${i + 1}`;
+        const draft = page === seedPage ? seedDraft! : await this.loadDraft(page, outputDir);
+        const markdown = this.finishMarkdown(draft.markdown, page.url);
+        const target = links === 'files' ? this.lookupPage(this.exportedFiles, page.url) ?? page.url : page.url;
+
+        // Many sites repeat the site-wide description on every page; use the page's first paragraph instead
+        let description = draft.description;
+        if (!description || (page !== seedPage && description === summary)) {
+          description = this.firstParagraph(markdown);
+        }
+
+        const folderName = this.getFolderName(page);
+        const lines = sections.get(folderName) ?? [];
+        lines.push(`- [${title}](${target})${description ? `: ${description}` : ''}`);
+        sections.set(folderName, lines);
 
-    return markdownPath;
+        await write(pending, pendingUrl);
+        pendingUrl = page.url;
+        pending = `# ${title}\n\n`;
+        pending += `Source: ${page.url}\n\n`;
+        pending += `${markdown}\n\n`;
+      }
+      await write(pending.trimEnd() + '\n', pendingUrl);
+    });
+
+    for (const [folderName, lines] of sections) {
+      index += `## ${folderName.replace(/^_+|_+$/g, '') || 'Home'}\n\n`;
+      index += lines.join('\n') + '\n\n';
+    }
+
+    const indexPath = path.join(outputDir, 'llms.txt');
+    await this.writeOutput(indexPath, index.trimEnd() + '\n');
+    this.logger.info(`Wrote llms.txt with ${orderedPages.length} pages in ${sections.size} sections`);
+    return indexPath;
+  }
+
+  /**
+   * Description from the page's meta tags, if any
+   */
+  private metaDescription($: cheerio.CheerioAPI): string {
+    const description = $('meta[name="description"]').attr('content') ?? $('meta[property="og:description"]').attr('content') ?? '';
+    return description.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * First prose paragraph of a page's Markdown as plain text, shortened to one line
+   */
+  private firstParagraph(markdown: string): string {
+    const paragraph = markdown.split(/\n\s*\n/)
+      .map(block => block.trim())
+      .find(block => block && !/^(#|```|~~~|>|\||[-*+] |\d+\. |!\[|<)/.test(block));
+    if (!paragraph) {
+      return '';
+    }
+
+    const text = paragraph
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')    // Images
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // Links keep their text
+      .replace(/\*\*|__|[*`]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (text.length <= 200) {
+      return text;
+    }
+    const cut = text.slice(0, 200);
+    return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : 200)}…`;
+  }
+
+  /**
+   * Write document.jsonl: every page split into heading-aware chunks, one JSON record per line
+   */
+  public async generateJSONL(pages: PageData[], outputDir: string): Promise<string> {
+    const chunker = new MarkdownChunker(this.chunkOptions);
+    const jsonlPath = path.join(outputDir, 'document.jsonl');
+    let chunks = 0;
+
+    await this.streamOutput(jsonlPath, async write => {
+      for (const [i, { page }] of orderPages(pages, url => this.urls.normalize(url)).entries()) {
+        const title = page.title || `Page ${i + 1}`;
+        const draft = await this.loadDraft(page, outputDir);
+        const records = chunker.chunk(this.finishMarkdown(draft.markdown, page.url), page.url, title);
+        if (records.length > 0) {
+          await write(records.map(record => JSON.stringify(record) + '\n').join(''), page.url);
+          chunks += records.length;
+        }
+      }
+    });
+    this.logger.info(`Wrote ${chunks} chunks from ${pages.length} pages`);
+    return jsonlPath;
+  }
+
+  /**
+   * Build document.epub from the crawled pages, one chapter per page in table of contents order
+   */
+  public async generateEPUB(pages: PageData[], outputDir: string, sourceUrl?: string): Promise<string> {
+    const orderedPages = orderPages(pages, url => this.urls.normalize(url));
+
+    // Links to crawled pages open their chapter; heading ids are not kept, so fragments are dropped
+    const chaptersByUrl = this.indexPages(orderedPages.map(({ page }, i) => [page, EpubWriter.chapterFile(i)]));
+    const resolveLink: LinkResolver = url => this.lookupPage(chaptersByUrl, url) ?? null;
+
+    const seedPage = orderedPages.find(({ page }) => page.depth === 0)?.page ?? orderedPages[0]?.page;
+    const writer = new EpubWriter({
+      title: seedPage?.title || 'Exported Documentation',
+      sourceUrl,
+      date: new Date(),
+      language: seedPage ? (await this.loadDraft(seedPage, outputDir)).language : undefined
+    }, path.join(outputDir, 'assets'), this.logger);
+
+    for (let i = 0; i < orderedPages.length; i++) {
+      const { page, level } = orderedPages[i];
+      const title = page.title || `Page ${i + 1}`;
+      let markdown = `# ${title}\n\n`;
+      markdown += `*Source: [${page.url}](${page.url})*\n\n`;
+      markdown += this.finishMarkdown((await this.loadDraft(page, outputDir)).markdown, page.url, resolveLink);
+      writer.addChapter(title, level, marked.parse(markdown, { async: false }));
+    }
+
+    const epubPath = path.join(outputDir, 'document.epub');
+    await writer.write(epubPath);
+    this.context.events.emit('written', { path: epubPath });
+    return epubPath;
+  }
+
+  /**
+   * Render the exported Markdown (document.md, or index.md and its page files) to document.pdf
+   */
+  public async generatePDF(markdownPath: string, outputDir: string, sourceUrl?: string): Promise<string> {
+    const pdfPath = path.join(outputDir, 'document.pdf');
+    await new PdfRenderer({ ...this.pdfOptions, sourceUrl }).render(markdownPath, pdfPath);
+    this.context.events.emit('written', { path: pdfPath });
+    return pdfPath;
   }
 }
\ No newline at end of file
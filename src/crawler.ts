@@ -2,8 +2,68 @@ import * as cheerio from 'cheerio';
 import PQueue from 'p-queue';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { CrawlerConfig, PageData } from './interfaces.js';
+import { CrawlerConfig, CrawlRecord, CrawlReport, DuplicateMatch, FetchFailure, NavItem, PageData, SkipReason } from './interfaces.js';
 import { BloomFilter } from 'bloom-filters';
+import { RobotsManager } from './robots.js';
+import { HostThrottle } from './throttle.js';
+import { SitemapLoader } from './sitemap.js';
+import { CrawlState } from './state.js';
+import { HttpCache } from './cache.js';
+import { extractNavigation } from './navigation.js';
+import { createContext, ExportContext } from './events.js';
+import { Logger } from './logger.js';
+import { PluginHost } from './plugins.js';
+import { UrlPatterns } from './patterns.js';
+import { createFetcher, Fetcher, HttpFetcher } from './fetcher.js';
+import { ReportWriter } from './report.js';
+import { matchesDomain, UrlNormalizer } from './urls.js';
+import { DuplicateDetector } from './fingerprint.js';
+import { ContentExtractor } from './extractor.js';
+
+export const USER_AGENT = 'Mozilla/5.0 DocCrawler/1.0';
+
+const MATCH_LABELS: Record<DuplicateMatch, string> = {
+  url: 'same canonical or redirect URL',
+  identical: 'identical content',
+  similar: 'near-identical content'
+};
+const ROBOTS_AGENT = 'DocCrawler';
+const CHECKPOINT_INTERVAL = 20; // Pages fetched between checkpoints
+const CACHE_SAVE_INTERVAL = 20; // Pages fetched between writes of the HTTP cache index
+const MAX_RETRY_DELAY = 60000;  // Upper bound for a single retry wait, including Retry-After
+const NAV_PRIORITY = 1000;      // Queue priority boost for URLs listed in a page's navigation
+const MAX_REFERRERS = 10;       // Referrers kept per URL in the crawl report
+
+/**
+ * Result of fetching a page; content is empty when the page is not usable
+ */
+interface FetchedPage {
+  content: string;
+  links: string[];
+  title?: string;
+  nav?: NavItem[];
+  canonical?: string; // <link rel="canonical"> URL
+  status?: number;
+  finalUrl?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of a single HTTP request
+ */
+interface FetchAttempt {
+  status: number;
+  finalUrl?: string;
+  html?: string;
+  retryable?: boolean;
+  retryAfter?: number;
+  error?: string;
+}
+
+/**
+ * Receives each page as soon as it is fetched, e.g. to convert it while the crawl goes on
+ */
+export type PageSink = (page: PageData) => Promise<void>;
 
 export class ParallelCrawler {
   private queue: PQueue;
@@ -11,35 +71,119 @@ export class ParallelCrawler {
   private bloomFilter = new BloomFilter(10000, 5);
   private config: CrawlerConfig;
   private maxUrlsPerDomain: number;
+  private maxTotalUrls: number;
+  private hostConcurrency: number;
   private urlCount = 0;
+  private hostCounts = new Map<string, number>();          // Pages fetched per host
+  private hostActive = new Map<string, number>();          // Running tasks per host
+  private hostWaiting = new Map<string, (() => void)[]>(); // Tasks waiting for a free slot on their host
   private timeout: number;
   private startTime: number;
   private maxRunTime: number;
   private shouldStop = false;
+  private respectRobots: boolean;
+  private crawlDelay: number;
+  private robots: RobotsManager;
+  private throttle = new HostThrottle();
+  private robotsSkipped: string[] = [];
+  private state?: CrawlState;
+  private httpCache?: HttpCache;
+  private notModified = 0;
+  private maxRetries: number;
+  private retryDelay: number;
+  private failures: FetchFailure[] = [];
+  private seedUrl = '';
+  private discovered = new Set<string>(); // Keys of URLs queued or started
+  private discoveryOrder = new Map<string, number>(); // URL key -> position in the order links were found
+  private completed = new Set<string>();  // Keys of URLs that finished processing
+  private fetchUrls = new Map<string, string>(); // URL key -> URL to fetch, for the saved frontier
+  private pagesByKey = new Map<string, PageData>(); // URL key -> exported page, for the page and its aliases
+  private urls: UrlNormalizer;
+  private duplicates?: DuplicateDetector;
+  private extractor?: ContentExtractor;
+  private merges: { url: string; duplicateOf: string; match: DuplicateMatch }[] = [];
+  private pagesSinceCheckpoint = 0;
+  private pagesSinceCacheSave = 0;
+  private records = new Map<string, CrawlRecord>(); // Every URL the crawler touched
+  private stopReason?: SkipReason;
+  private startedAt = new Date();
+  private finishedAt?: Date;
+  private context: ExportContext;
+  private logger: Logger;
+  private runTimer: ReturnType<typeof setTimeout>;
+  private plugins: PluginHost;
+  private patterns: UrlPatterns;
+  private maxDepth: number;
+  private frontierOrder: 'fifo' | 'shallow' | 'nav';
+  private navLinks = new Set<string>(); // Keys of URLs listed in a page's navigation
+  private sharedNavs = new Map<string, NavItem[]>(); // Serialized navigation -> the copy pages share
+  private onPage?: PageSink;
+  private fetcher: Fetcher;
+  private userAgent: string;
 
-  constructor(config: CrawlerConfig) {
+  constructor(config: CrawlerConfig, context?: Partial<ExportContext>) {
     this.config = config;
+    this.context = createContext(context);
+    this.logger = this.context.logger;
     this.queue = new PQueue({ concurrency: config.maxConcurrency });
     this.startTime = Date.now();
 
     // Initialize configurable parameters with defaults if not provided
     this.maxUrlsPerDomain = config.maxUrlsPerDomain ?? 200;
+    this.maxTotalUrls = config.maxTotalUrls ?? Infinity;
+    this.hostConcurrency = config.maxConcurrencyPerHost ?? config.maxConcurrency;
     this.timeout = config.requestTimeout ?? 5000;
     this.maxRunTime = config.maxRunTime ?? 30000;
+    this.respectRobots = config.respectRobots ?? true;
+    this.crawlDelay = config.crawlDelay ?? 0;
+    this.maxRetries = config.maxRetries ?? 2;
+    this.retryDelay = config.retryDelay ?? 500;
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.fetcher = config.fetcher ?? createFetcher(config);
+    this.robots = new RobotsManager(this.userAgent, ROBOTS_AGENT, this.timeout, this.fetcher);
+    this.plugins = new PluginHost(config.plugins, this.logger);
+    this.urls = new UrlNormalizer(config);
+    this.patterns = new UrlPatterns(config.includePatterns, config.excludePatterns);
+    this.maxDepth = config.maxDepth ?? Infinity;
+    this.frontierOrder = config.frontierOrder ?? 'fifo';
+
+    // Duplicates are detected on the main content, which ignores the site's shared navigation
+    if (config.dedupeContent ?? true) {
+      this.duplicates = new DuplicateDetector(config.nearDuplicates ?? false);
+      this.extractor = new ContentExtractor({
+        contentSelector: config.contentSelector,
+        removeSelectors: config.removeSelectors,
+        contentPreset: config.contentPreset
+      });
+    }
+
+    if (config.stateDir) {
+      this.state = new CrawlState(config.stateDir, this.logger, url => this.normalizeUrl(url));
+    }
+    if (config.cacheDir) {
+      this.httpCache = new HttpCache(config.cacheDir);
+    }
 
     // Set a global timeout to stop crawling after maxRunTime
-    setTimeout(() => {
-      this.stopCrawling('Reached maximum run time');
+    this.runTimer = setTimeout(() => {
+      this.stopCrawling('Reached maximum run time', 'max-runtime');
     }, this.maxRunTime);
+
+    // Cancelling keeps the pages fetched so far, like reaching a limit
+    if (this.context.signal?.aborted) {
+      this.stopCrawling('Export aborted', 'aborted');
+    }
+    this.context.signal?.addEventListener('abort', () => this.stopCrawling('Export aborted', 'aborted'), { once: true });
   }
 
   /**
    * Stop the crawling process gracefully
    */
-  private stopCrawling(reason: string): void {
+  private stopCrawling(reason: string, code: SkipReason): void {
     if (!this.shouldStop) {
-      console.log(`\n${reason}. Stopping crawler.`);
+      this.logger.info(`${reason}. Stopping crawler.`);
       this.shouldStop = true;
+      this.stopReason = code;
 
       // Clear the queue
       this.queue.clear();
@@ -48,45 +192,108 @@ export class ParallelCrawler {
   }
 
   /**
-   * Start crawling from a seed URL
+   * Start crawling from a seed URL. With onPage, every page is handed to it as soon as it is fetched
+   * and the returned pages keep only their metadata, without the HTML content and links.
    */
-  async crawl(seedUrl: string): Promise<PageData[]> {
+  async crawl(seedUrl: string, onPage?: PageSink): Promise<PageData[]> {
     try {
       const parsedUrl = new URL(seedUrl);
       const baseDomain = parsedUrl.hostname;
       const results: PageData[] = [];
+      this.seedUrl = seedUrl;
+      this.onPage = onPage;
+      // The seed's host receives the configured credentials and cookies
+      if (this.fetcher instanceof HttpFetcher) {
+        this.fetcher.addSite(seedUrl);
+      }
 
       // Create output directory if it doesn't exist
       await fs.mkdir(this.config.outputDir, { recursive: true });
 
-      console.log(`Starting crawler with max ${this.maxUrlsPerDomain} URLs and ${this.config.maxConcurrency} concurrent requests`);
-      console.log(`Request timeout: ${this.timeout / 1000}s, Max run time: ${this.maxRunTime / 1000}s`);
+      // Restore a previous run, or start the on-disk state from scratch
+      const resumedFrontier = await this.restoreState(seedUrl, baseDomain, results);
+      await this.httpCache?.load();
+
+      if (this.isSingleHost()) {
+        this.logger.info(`Starting crawler with max ${this.maxUrlsPerDomain} URLs and ${this.config.maxConcurrency} concurrent requests`);
+      } else {
+        const total = this.maxTotalUrls === Infinity ? '' : `, ${this.maxTotalUrls} in total`;
+        this.logger.info(`Starting crawler with max ${this.maxUrlsPerDomain} URLs per host${total}, ${this.config.maxConcurrency} concurrent requests (${this.hostConcurrency} per host)`);
+      }
+      this.logger.info(`Request timeout: ${this.timeout / 1000}s, Max run time: ${this.maxRunTime / 1000}s`);
+      if (this.isRemote(seedUrl)) {
+        this.logger.info(`robots.txt: ${this.respectRobots ? 'respected' : 'ignored'}, Crawl delay: ${this.crawlDelay}ms per host`);
+      }
+      if (this.maxDepth !== Infinity || this.frontierOrder !== 'fifo') {
+        this.logger.info(`Max depth: ${this.maxDepth === Infinity ? 'unlimited' : this.maxDepth}, Frontier order: ${this.frontierOrder}`);
+      }
 
       // Process the seed URL directly first
-      await this.processUrl(seedUrl, baseDomain, results);
+      await this.processUrl(seedUrl, baseDomain, results, 0);
 
-      // Only add more URLs to the queue if the seed was processed successfully
-      if (results.length > 0 && !this.shouldStop) {
-        // Get the links from the first page
-        const seedPageLinks = results.flatMap(result => this.filterLinks(result.links, seedUrl, baseDomain));
+      // Queue pages listed in sitemaps, even if the seed page itself failed; file:// sites have no sitemap location
+      const sitemapLinks = this.config.useSitemap && !this.shouldStop && parsedUrl.protocol !== 'file:'
+        ? await this.loadSitemapLinks(seedUrl, baseDomain)
+        : [];
 
-        // Add them to the queue
-        for (const link of seedPageLinks) {
+      // Only add more URLs to the queue if the seed was processed successfully or other sources provided some
+      if ((results.length > 0 || sitemapLinks.length > 0 || resumedFrontier.length > 0) && !this.shouldStop) {
+        // Add the restored frontier and the sitemap pages to the queue
+        const candidates = [
+          ...resumedFrontier,
+          ...sitemapLinks.map(link => ({ link, depth: 1, referrer: undefined }))
+        ];
+        for (const { link, depth, referrer } of candidates) {
           if (this.shouldStop) break;
-          if (!this.isVisited(link)) {
-            this.queue.add(() => this.processUrl(link, baseDomain, results));
+          // Links of the seed page were queued while processing it
+          const key = this.normalizeUrl(link);
+          if (!this.isVisited(key) && !this.discovered.has(key)) {
+            this.enqueue(link, baseDomain, results, depth, referrer);
           }
         }
 
         try {
-          await this.queue.onEmpty();
+          // Wait for running tasks too, so pages fetched while stopping are kept
+          await this.queue.onIdle();
         } catch (err) {
-          console.log('Queue processing error:', (err as Error).message);
+          this.logger.warn(`Queue processing error: ${(err as Error).message}`);
         }
       }
 
+      clearTimeout(this.runTimer);
+      this.finishedAt = new Date();
+      await this.saveCheckpoint();
+      await this.httpCache?.save();
+      await this.fetcher.flush?.();
+
       const elapsedTime = (Date.now() - this.startTime) / 1000;
-      console.log(`\nCrawling completed. Processed ${results.length} pages in ${elapsedTime.toFixed(1)}s.`);
+      this.logger.info(`Crawling completed. Processed ${results.length} pages in ${elapsedTime.toFixed(1)}s.`);
+      if (this.notModified > 0) {
+        this.logger.info(`Reused ${this.notModified} unchanged pages from the HTTP cache.`);
+      }
+      if (this.robotsSkipped.length > 0) {
+        this.logger.info(`Skipped ${this.robotsSkipped.length} URLs disallowed by robots.txt.`);
+      }
+      if (this.merges.length > 0) {
+        this.logger.info(`Merged ${this.merges.length} duplicate URLs into the pages they repeat:`);
+        for (const merge of this.merges) {
+          this.logger.info(`  ${merge.url} -> ${merge.duplicateOf} (${MATCH_LABELS[merge.match]})`);
+        }
+      }
+      const hosts = ReportWriter.summarizeHosts([...this.records.values()]);
+      if (hosts.length > 1) {
+        this.logger.info('Pages per host:');
+        for (const host of hosts) {
+          const overBudget = this.isOverBudget(host.host) ? ' (reached --max-urls)' : '';
+          this.logger.info(`  ${host.host}: ${host.exported} exported, ${host.failed} failed${overBudget}`);
+        }
+      }
+      if (this.failures.length > 0) {
+        this.logger.warn(`Failed to fetch ${this.failures.length} URLs:`);
+        for (const failure of this.failures) {
+          this.logger.warn(`  [${failure.status || 'ERR'}] ${failure.url} (${failure.error})`);
+        }
+      }
 
       // Even if we have no results, at least include the seed URL
       if (results.length === 0) {
@@ -100,7 +307,8 @@ export class ParallelCrawler {
 
       return results;
     } catch (error) {
-      console.error('Error during crawling:', error);
+      clearTimeout(this.runTimer);
+      this.logger.error('Error during crawling:', error);
 
       // Return at least the seed URL with an error message
       return [{
@@ -112,53 +320,415 @@ export class ParallelCrawler {
     }
   }
 
+  /**
+   * Load saved state when resuming; returns the saved frontier and the links of the restored pages to re-queue
+   */
+  private async restoreState(
+    seedUrl: string,
+    baseDomain: string,
+    results: PageData[]
+  ): Promise<{ link: string; depth: number; referrer?: string }[]> {
+    if (!this.state) {
+      return [];
+    }
+
+    const saved = this.config.resume ? await this.state.load(seedUrl) : null;
+    if (!saved) {
+      await this.state.reset();
+      return [];
+    }
+
+    const { checkpoint, pages } = saved;
+    for (const record of checkpoint.records ?? []) {
+      this.records.set(record.url, record);
+      this.discoveryOrder.set(record.url, this.discoveryOrder.size);
+    }
+    for (const url of checkpoint.visited) {
+      this.markVisited(url);
+      this.completed.add(url);
+      this.discovered.add(url);
+    }
+    this.urlCount = checkpoint.urlCount;
+    this.hostCounts = new Map(Object.entries(checkpoint.hostCounts ?? {}));
+    const frontier: { link: string; depth: number; referrer?: string }[] = checkpoint.frontier
+      .map(link => ({ link, depth: this.getDepth(link) }));
+    results.push(...pages);
+    for (const page of pages) {
+      // Pages are saved as soon as they are fetched, but the visited list only at checkpoints:
+      // a page saved after the last checkpoint is counted and marked visited here so it is not fetched again
+      const keys = [page.url, ...(page.aliases ?? [])].map(url => this.normalizeUrl(url));
+      if (!keys.some(key => this.completed.has(key))) {
+        this.urlCount++;
+        this.countHost(this.hostOf(page.url), 1);
+        const record = this.track(page.url, page.depth ?? 0);
+        if (record.outcome === 'queued') {
+          Object.assign(record, { outcome: 'exported', title: page.title });
+        }
+      }
+      for (const key of keys) {
+        this.pagesByKey.set(key, page);
+        this.markVisited(key);
+        this.completed.add(key);
+        this.discovered.add(key);
+      }
+      page.nav = this.shareNav(page.nav);
+      page.content = await this.state.readContent(page.url);
+      this.duplicates?.add(page.url, this.mainText(page.content));
+      this.addNavLinks(page.nav);
+      frontier.push(...this.filterLinks(page.links, page.url, baseDomain)
+        .map(link => ({ link, depth: this.getDepth(page.url) + 1, referrer: page.url })));
+      await this.handOff(page);
+    }
+
+    this.logger.info(`Resuming crawl: ${pages.length} pages restored, ${checkpoint.frontier.length} URLs left in the frontier`);
+    return frontier;
+  }
+
+  /**
+   * Write the visited set and the unprocessed frontier to disk
+   */
+  private async saveCheckpoint(): Promise<void> {
+    if (!this.state) {
+      return;
+    }
+
+    this.pagesSinceCheckpoint = 0;
+    await this.state.saveCheckpoint({
+      seedUrl: this.seedUrl,
+      urlCount: this.urlCount,
+      hostCounts: Object.fromEntries(this.hostCounts),
+      visited: [...this.completed],
+      frontier: [...this.discovered].filter(key => !this.completed.has(key)).map(key => this.fetchUrls.get(key) ?? key),
+      records: [...this.records.values()],
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Add a URL to the frontier and the queue
+   */
+  private enqueue(link: string, baseDomain: string, results: PageData[], depth: number, referrer?: string): void {
+    this.discovered.add(this.normalizeUrl(link));
+    this.track(link, depth, referrer);
+    const priority = this.priorityOf(link, depth);
+    this.queue.add(() => this.runForHost(link, priority, () => this.processUrl(link, baseDomain, results, depth, referrer)), { priority });
+  }
+
+  /**
+   * Run a task once its host has a free slot. A task whose host is busy gives its queue slot to other hosts
+   * and is queued again when a task for that host finishes.
+   */
+  private async runForHost(link: string, priority: number, task: () => Promise<void>): Promise<void> {
+    const host = this.hostOf(link);
+    const active = this.hostActive.get(host) ?? 0;
+    if (active >= this.hostConcurrency) {
+      const waiting = this.hostWaiting.get(host) ?? [];
+      waiting.push(() => this.queue.add(() => this.runForHost(link, priority, task), { priority }));
+      this.hostWaiting.set(host, waiting);
+      return;
+    }
+
+    this.hostActive.set(host, active + 1);
+    try {
+      await task();
+    } finally {
+      this.hostActive.set(host, (this.hostActive.get(host) ?? 1) - 1);
+      this.hostWaiting.get(host)?.shift()?.();
+    }
+  }
+
+  /**
+   * Queue priority of a URL; higher runs first, equal priorities keep discovery order
+   */
+  private priorityOf(link: string, depth: number): number {
+    switch (this.frontierOrder) {
+      case 'shallow':
+        return -depth;
+      case 'nav':
+        return (this.navLinks.has(this.normalizeUrl(link)) ? NAV_PRIORITY : 0) - depth;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Pass a page to the onPage callback of the crawl, then drop its HTML and links. The links are
+   * followed from the fetched page, and a resumed crawl reads them back from the saved state.
+   */
+  private async handOff(page: PageData): Promise<void> {
+    if (this.onPage) {
+      await this.onPage(page);
+      page.content = '';
+      page.links = [];
+    }
+  }
+
+  /**
+   * Reuse an identical navigation already kept for another page; most pages of a site share their sidebar
+   */
+  private shareNav(nav?: NavItem[]): NavItem[] | undefined {
+    if (!nav) {
+      return undefined;
+    }
+    const key = JSON.stringify(nav);
+    const shared = this.sharedNavs.get(key);
+    if (shared) {
+      return shared;
+    }
+    this.sharedNavs.set(key, nav);
+    return nav;
+  }
+
+  /**
+   * Remember the URLs a page lists in its navigation, for the 'nav' frontier order
+   */
+  private addNavLinks(nav?: NavItem[]): void {
+    for (const item of nav ?? []) {
+      this.navLinks.add(this.normalizeUrl(item.url));
+    }
+  }
+
+  /**
+   * Get or create the report record for a URL, adding the referrer if it is new (up to MAX_REFERRERS)
+   * and keeping the shortest depth
+   */
+  private track(link: string, depth: number, referrer?: string): CrawlRecord {
+    const url = this.normalizeUrl(link);
+    let record = this.records.get(url);
+    if (!record) {
+      record = { url, depth, outcome: 'queued', referrers: [], rule: this.patterns.match(link).rule };
+      this.records.set(url, record);
+      this.discoveryOrder.set(url, this.discoveryOrder.size);
+      this.fetchUrls.set(url, this.urls.clean(link));
+    }
+    if (referrer && record.referrers.length < MAX_REFERRERS && !record.referrers.includes(referrer)) {
+      record.referrers.push(referrer);
+    }
+    record.depth = Math.min(record.depth, depth);
+    return record;
+  }
+
+  /**
+   * Depth of a URL from the seed, as recorded when it was discovered
+   */
+  private getDepth(url: string): number {
+    return this.records.get(this.normalizeUrl(url))?.depth ?? 0;
+  }
+
+  /**
+   * Key identifying the page a URL points to (see UrlNormalizer)
+   */
+  private normalizeUrl(url: string): string {
+    return this.urls.normalize(url);
+  }
+
+  /**
+   * Discover sitemap URLs for the seed, newest first, with the same filtering as page links
+   */
+  private async loadSitemapLinks(seedUrl: string, baseDomain: string): Promise<string[]> {
+    const robotsRules = await this.robots.getRules(seedUrl);
+    const loader = new SitemapLoader(this.userAgent, this.timeout, this.fetcher);
+    let entries = await loader.load(seedUrl, robotsRules.sitemaps);
+
+    // Skip pages that have not changed since the given date
+    const since = this.config.sitemapSince;
+    if (since) {
+      entries = entries.filter(entry => !entry.lastmod || entry.lastmod >= since);
+    }
+
+    // Prioritize recently modified pages; entries without lastmod keep their sitemap order at the end
+    entries = entries
+      .map((entry, index) => ({ entry, index }))
+      .sort((a, b) => {
+        const aTime = a.entry.lastmod?.getTime() ?? -Infinity;
+        const bTime = b.entry.lastmod?.getTime() ?? -Infinity;
+        return aTime === bTime ? a.index - b.index : bTime - aTime;
+      })
+      .map(({ entry }) => entry);
+
+    const links = this.filterLinks(entries.map(entry => entry.url), seedUrl, baseDomain);
+    this.logger.info(`Found ${entries.length} URLs in sitemaps, ${links.length} match the crawl filters`);
+    return links;
+  }
+
   /**
    * Process a single URL
    */
   private async processUrl(
     url: string,
     baseDomain: string,
-    results: PageData[]
+    results: PageData[],
+    depth: number,
+    referrer?: string
   ): Promise<void> {
-    // Clean URL, without query and selectors
-    url = url.split('?')[0].split('#')[0];
+    url = this.urls.clean(url);
+    const key = this.normalizeUrl(url);
+    this.discovered.add(key);
+    const record = this.track(url, depth, referrer);
+
     // Check if we should stop
     if (this.shouldStop) {
       return;
     }
 
     // Skip if already visited
-    if (this.isVisited(url)) {
+    if (this.isVisited(key)) {
       return;
     }
 
-    // Skip URLs with fragments
-    if (url.includes('#')) {
-      url = url.split('#')[0];
-      if (this.isVisited(url)) {
-        return;
-      }
+    // Skip pages beyond the depth limit; they stay unvisited in case a shorter path to them turns up
+    if (record.depth > this.maxDepth) {
+      Object.assign(record, { outcome: 'skipped', skipReason: 'max-depth' });
+      this.context.events.emit('pageSkipped', { url, reason: 'max-depth', referrer });
+      return;
+    }
+
+    // Stop at the total limit, or when the only host has used up its budget. In a multi-host crawl,
+    // pages of a host over budget stay queued and are reported as max-urls.
+    const host = this.hostOf(url);
+    if (this.urlCount >= this.maxTotalUrls || (this.isSingleHost() && this.isOverBudget(host))) {
+      this.stopCrawling('Reached maximum number of URLs', 'max-urls');
+      return;
+    }
+    if (this.isOverBudget(host)) {
+      return;
     }
 
-    // Skip if we've reached the maximum number of URLs
-    if (this.urlCount >= this.maxUrlsPerDomain) {
-      this.stopCrawling('Reached maximum number of URLs');
+    // Mark as visited before any async checks so concurrent tasks don't pick it up again
+    this.markVisited(key);
+
+    // Skip URLs disallowed by robots.txt
+    if (this.respectRobots && !(await this.isAllowedByRobots(url))) {
+      this.robotsSkipped.push(url);
+      this.completed.add(key);
+      record.outcome = 'skipped';
+      record.skipReason = 'robots';
+      this.logger.info(`Skipped (robots.txt): ${url}`);
+      this.context.events.emit('pageSkipped', { url, reason: 'robots', referrer });
+      return;
+    }
+
+    // Re-check the limits after waiting for robots.txt
+    if (this.shouldStop || this.urlCount >= this.maxTotalUrls || this.isOverBudget(host)) {
       return;
     }
 
-    // Mark as visited and increment counter
-    this.markVisited(url);
     this.urlCount++;
+    this.countHost(host, 1);
 
     try {
-      process.stdout.write(`\rProcessing: ${this.urlCount}/${this.maxUrlsPerDomain} pages`);
+      const limit = this.isSingleHost() ? this.maxUrlsPerDomain : this.maxTotalUrls;
+      this.logger.progress?.(`Processing: ${this.urlCount}${limit === Infinity ? '' : `/${limit}`} pages`);
 
       // Fetch and parse the page
-      const { content, links, title } = await this.fetchPage(url);
+      const fetchStart = performance.now();
+      const { content, links, title, nav, canonical, status, finalUrl, error } = await this.fetchPage(url);
+      const durationMs = Math.round(performance.now() - fetchStart);
+
+      // A fetch skipped because the crawler is stopping stays in the frontier
+      if (!content && !error && this.shouldStop) {
+        this.urlCount--;
+        this.countHost(host, -1);
+        return;
+      }
+
+      // Error pages and non-HTML responses are recorded instead of exported
+      if (!content) {
+        this.failures.push({ url, status: status ?? 0, error: error ?? 'Unknown error' });
+        this.context.events.emit('pageFailed', { url, status: status ?? 0, error: error ?? 'Unknown error' });
+      }
 
-      // Add to results only if content was successfully fetched
+      Object.assign(record, {
+        outcome: content ? 'exported' : 'failed',
+        status,
+        finalUrl: finalUrl && finalUrl !== url ? finalUrl : undefined,
+        title: title || undefined,
+        error,
+        fetchedAt: new Date().toISOString(),
+        durationMs
+      });
+
+      // Add to results only if content was successfully fetched, and only once per page
       if (content) {
-        results.push({ url, content, links, title });
+        const { pageUrl, pageKey, duplicateOf, match } = this.identifyPage(url, key, content, baseDomain, canonical, finalUrl);
+        if (duplicateOf) {
+          // Links to this URL now lead to the page it repeats, whose links were already followed
+          Object.assign(record, { outcome: 'skipped', skipReason: 'duplicate', duplicateOf: duplicateOf.url, duplicateMatch: match });
+          duplicateOf.aliases = [...new Set([...(duplicateOf.aliases ?? []), url])];
+          this.pagesByKey.set(key, duplicateOf);
+          await this.state?.savePage(duplicateOf);
+          this.merges.push({ url, duplicateOf: duplicateOf.url, match: match! });
+          this.logger.info(`Merged duplicate ${url} into ${duplicateOf.url} (${MATCH_LABELS[match!]})`);
+          this.context.events.emit('pageSkipped', { url, reason: 'duplicate', referrer });
+          this.completed.add(key);
+          return;
+        }
+
+        const page: PageData = {
+          url: pageUrl, content, links, title, nav: this.shareNav(nav), depth,
+          order: this.discoveryOrder.get(key),
+          aliases: pageKey !== key ? [url] : undefined
+        };
+        this.pagesByKey.set(key, page);
+        if (pageKey !== key) {
+          // The canonical or redirect target is exported in place of the requested URL
+          this.markVisited(pageKey);
+          this.discovered.add(pageKey);
+          this.completed.add(pageKey);
+          this.pagesByKey.set(pageKey, page);
+          Object.assign(this.track(pageUrl, depth), { outcome: 'exported', status, title: record.title, fetchedAt: record.fetchedAt, durationMs });
+          Object.assign(record, { outcome: 'skipped', skipReason: 'duplicate', duplicateOf: pageUrl, duplicateMatch: 'url' });
+        }
+        results.push(page);
+        await this.state?.savePage(page);
+        this.context.events.emit('pageFetched', {
+          url: pageUrl,
+          status,
+          finalUrl: record.finalUrl,
+          title: title || undefined,
+          depth,
+          durationMs
+        });
+        await this.handOff(page);
+      }
+
+      // Keep discovered links in the frontier so a resumed crawl can pick them up,
+      // and record the ones the filters rejected
+      this.addNavLinks(nav);
+      const limitedLinks: string[] = [];
+      for (const link of links) {
+        const linkRecord = this.track(link, depth + 1, url);
+        const skipReason = this.getSkipReason(link, baseDomain, url) ?? (linkRecord.depth > this.maxDepth ? 'max-depth' : null);
+        const revived = !skipReason && linkRecord.skipReason === 'max-depth';
+        if (revived) {
+          // A shorter path brings the page within the depth limit
+          Object.assign(linkRecord, { outcome: 'queued', skipReason: undefined });
+        }
+        if (skipReason) {
+          if (linkRecord.outcome === 'queued') {
+            linkRecord.outcome = 'skipped';
+            linkRecord.skipReason = skipReason;
+            this.context.events.emit('pageSkipped', { url: linkRecord.url, reason: skipReason, referrer: url });
+          }
+          continue;
+        }
+        // Links repeated on every page, e.g. the sidebar, are queued once
+        const linkKey = this.normalizeUrl(link);
+        if (this.isVisited(linkKey) || (this.discovered.has(linkKey) && !revived)) {
+          continue;
+        }
+        limitedLinks.push(link);
+        this.discovered.add(linkKey);
+      }
+
+      this.completed.add(key);
+      if (this.state && ++this.pagesSinceCheckpoint >= CHECKPOINT_INTERVAL) {
+        await this.saveCheckpoint();
+      }
+      // The cache index is written on its own, so validators survive a crash even without --state-dir
+      if (this.httpCache && ++this.pagesSinceCacheSave >= CACHE_SAVE_INTERVAL) {
+        this.pagesSinceCacheSave = 0;
+        await this.httpCache.save();
       }
 
       // Check again if we should stop
@@ -166,153 +736,471 @@ export class ParallelCrawler {
         return;
       }
 
-      // Queue discovered links (limited to avoid overwhelming the queue)
-      const limitedLinks = this.filterLinks(links, url, baseDomain); // Only 5 links per page max
+      // Queue discovered links
       for (const link of limitedLinks) {
-        // Check if we have capacity and should continue
-        if (this.shouldStop || this.urlCount >= this.maxUrlsPerDomain) {
+        // Check if we have capacity and should continue; links to hosts over budget are reported as max-urls
+        if (this.shouldStop || this.urlCount >= this.maxTotalUrls) {
           break;
         }
+        if (this.isOverBudget(this.hostOf(link))) {
+          continue;
+        }
 
         // Only add to queue if we haven't visited and are under limits
-        if (!this.isVisited(link)) {
-          this.queue.add(() => this.processUrl(link, baseDomain, results));
+        if (!this.isVisited(this.normalizeUrl(link))) {
+          this.enqueue(link, baseDomain, results, depth + 1, url);
         }
       }
     } catch (error) {
+      this.completed.add(key);
+      record.outcome = 'failed';
+      record.error = (error as Error).message;
       if (!this.shouldStop) {
-        console.error(`\nError processing ${url}:`, error);
+        this.logger.error(`Error processing ${url}:`, error);
+        this.context.events.emit('pageFailed', { url, status: record.status ?? 0, error: record.error });
       }
     }
   }
 
+  /**
+   * Decide which URL a fetched page is exported under: its canonical URL, else the URL it redirected to,
+   * else the requested URL. Returns the page it repeats instead when that URL or near-identical content
+   * was already exported.
+   */
+  private identifyPage(
+    url: string,
+    key: string,
+    content: string,
+    baseDomain: string,
+    canonical?: string,
+    finalUrl?: string
+  ): { pageUrl: string; pageKey: string; duplicateOf?: PageData; match?: DuplicateMatch } {
+    // Targets the crawl filters reject, e.g. a canonical URL on another site, are ignored
+    let pageUrl = url;
+    for (const candidate of [canonical, finalUrl]) {
+      if (candidate && this.getSkipReason(candidate, baseDomain) === null) {
+        pageUrl = this.urls.clean(candidate);
+        break;
+      }
+    }
+
+    let pageKey = this.normalizeUrl(pageUrl);
+    if (pageKey !== key) {
+      const existing = this.pagesByKey.get(pageKey);
+      if (existing) {
+        return { pageUrl, pageKey, duplicateOf: existing, match: 'url' };
+      }
+      // The target is being fetched or failed: keep the requested URL and let content detection merge them
+      if (this.isVisited(pageKey)) {
+        pageUrl = url;
+        pageKey = key;
+      }
+    }
+
+    const match = this.duplicates?.add(pageUrl, this.mainText(content));
+    const duplicateOf = match ? this.pagesByKey.get(this.normalizeUrl(match.url)) : undefined;
+    return { pageUrl, pageKey, duplicateOf, match: match ? (match.identical ? 'identical' : 'similar') : undefined };
+  }
+
+  /**
+   * Text of a page's main content, used to detect near-duplicates
+   */
+  private mainText(html: string): string {
+    return this.extractor ? cheerio.load(this.extractor.extract(html)).text() : '';
+  }
+
   /**
    * Filter links to valid candidates for crawling
    */
   private filterLinks(links: string[], currentUrl: string, baseDomain: string): string[] {
-    return links.filter(link => {
-      try {
-        const url = new URL(link);
+    return links.filter(link => this.getSkipReason(link, baseDomain, currentUrl) === null);
+  }
 
-        // Skip non-http protocols
-        if (!url.protocol.startsWith('http')) {
-          return false;
-        }
+  /**
+   * Get the reason a link should not be crawled, or null if it is a valid candidate
+   */
+  private getSkipReason(link: string, baseDomain: string, referrer?: string): SkipReason | null {
+    try {
+      const url = new URL(link);
 
-        // Skip fragments
-        if (url.hash) {
-          // Remove the hash
-          url.hash = '';
-          link = url.toString();
+      // Skip non-http protocols; file:// URLs only belong to a crawl that starts from a local file,
+      // and only inside the seed's directory
+      if (url.protocol === 'file:' && this.seedUrl.startsWith('file:')) {
+        if (!url.pathname.startsWith(new URL('.', this.seedUrl).pathname)) {
+          return 'external-domain';
         }
+      } else if (!url.protocol.startsWith('http')) {
+        return 'unsupported-protocol';
+      }
 
-        // Skip URLs that go outside the base domain if sameDomain is true
-        if (this.config.sameDomain && url.hostname !== baseDomain) {
-          return false;
-        }
+      // Skip fragments
+      if (url.hash) {
+        // Remove the hash
+        url.hash = '';
+        link = url.toString();
+      }
 
-        // Skip common file types we don't want to process
-        const ext = path.extname(url.pathname).toLowerCase();
-        if (['.jpg', '.jpeg', '.png', '.gif', '.pdf', '.zip', '.css', '.js'].includes(ext)) {
-          return false;
-        }
+      // Skip URLs that go outside the base domain and the allowed domains if sameDomain is true
+      if (this.config.sameDomain && url.hostname !== baseDomain && !this.isAllowedDomain(url.hostname)) {
+        return 'external-domain';
+      }
 
-        // Skip URLs with query parameters if they're too complex
-        if (url.search && url.search.length > 20) {
-          return false;
-        }
+      // Skip common file types we don't want to process
+      const ext = path.extname(url.pathname).toLowerCase();
+      if (['.jpg', '.jpeg', '.png', '.gif', '.pdf', '.zip', '.css', '.js'].includes(ext)) {
+        return 'file-type';
+      }
 
-        // Skip URLs that don't match any of the allowed prefixes (if specified)
-        if (this.config.allowedPrefixes && this.config.allowedPrefixes.length > 0) {
-          const fullUrl = url.toString();
-          const matchesPrefix = this.config.allowedPrefixes.some(prefix =>
-            fullUrl.startsWith(prefix));
+      // Skip URLs with query parameters if they're too complex; parameters dropped by normalization don't count
+      const query = new URL(this.urls.clean(link)).search;
+      if (query.length > 20) {
+        return 'complex-query';
+      }
 
-          if (!matchesPrefix) {
-            return false;
-          }
+      // Skip URLs that don't match any of the allowed prefixes (if specified)
+      if (this.config.allowedPrefixes && this.config.allowedPrefixes.length > 0) {
+        const fullUrl = url.toString();
+        const matchesPrefix = this.config.allowedPrefixes.some(prefix =>
+          fullUrl.startsWith(prefix));
+
+        if (!matchesPrefix) {
+          return 'not-allowed-prefix';
         }
+      }
 
-        // Skip URLs that match any of the ignore prefixes (if specified)
-        if (this.config.ignorePrefixes && this.config.ignorePrefixes.length > 0) {
-          const fullUrl = url.toString();
-          const matchesIgnorePrefix = this.config.ignorePrefixes.some(prefix =>
-            fullUrl.startsWith(prefix));
+      // Skip URLs that match any of the ignore prefixes (if specified)
+      if (this.config.ignorePrefixes && this.config.ignorePrefixes.length > 0) {
+        const fullUrl = url.toString();
+        const matchesIgnorePrefix = this.config.ignorePrefixes.some(prefix =>
+          fullUrl.startsWith(prefix));
 
-          if (matchesIgnorePrefix) {
-            return false;
-          }
+        if (matchesIgnorePrefix) {
+          return 'ignored-prefix';
         }
+      }
 
-        return true;
-      } catch (e) {
-        return false;
+      // Skip URLs excluded by a pattern, or not matching any include pattern (if specified)
+      const match = this.patterns.match(url.toString());
+      if (!match.allowed) {
+        return match.reason!;
       }
-    });
+
+      // Skip URLs rejected by a plugin
+      if (!this.plugins.allowsUrl(url.toString(), referrer)) {
+        return 'plugin';
+      }
+
+      return null;
+    } catch (e) {
+      return 'invalid-url';
+    }
   }
 
   /**
-   * Fetch a page and extract content and links
+   * Fetch a page and extract content and links, retrying timeouts, 5xx and 429 responses
    */
-  private async fetchPage(pageUrl: string): Promise<{ content: string; links: string[]; title?: string }> {
+  private async fetchPage(pageUrl: string): Promise<FetchedPage> {
     try {
-      if (this.shouldStop) {
-        return { content: '', links: [] };
+      for (let attempt = 0; ; attempt++) {
+        if (this.shouldStop) {
+          return { content: '', links: [] };
+        }
+
+        // Respect the per-host minimum interval between requests
+        await this.throttle.wait(new URL(pageUrl).host, await this.getCrawlDelay(pageUrl));
+        if (this.shouldStop) {
+          return { content: '', links: [] };
+        }
+
+        // Relative links resolve against the URL the page was served from
+        const result = await this.fetchOnce(pageUrl);
+        if (result.html !== undefined) {
+          return { ...this.parsePage(result.html, result.finalUrl || pageUrl), status: result.status, finalUrl: result.finalUrl };
+        }
+
+        if (!result.retryable || attempt >= this.maxRetries) {
+          return { content: '', links: [], status: result.status, finalUrl: result.finalUrl, error: result.error };
+        }
+
+        // Prefer the server's Retry-After, otherwise back off exponentially with jitter
+        const delay = Math.min(result.retryAfter ?? this.backoffDelay(attempt), MAX_RETRY_DELAY);
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
+    } catch (error) {
+      return { content: '', links: [], error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Make a single request, classifying the outcome as HTML, a retryable failure or a final failure
+   */
+  private async fetchOnce(pageUrl: string, conditional = true): Promise<FetchAttempt> {
+    // Fetch the page with a timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
-      // Fetch the page with a timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    try {
+      // Ask the server to skip the body if our cached copy is still current; a WARC recording needs full bodies
+      const useCache = conditional && this.isRemote(pageUrl) && !this.config.warcOutput;
+      const conditionalHeaders = (useCache ? this.httpCache?.getConditionalHeaders(pageUrl) : undefined) ?? {};
 
-      const response = await fetch(pageUrl, {
-        headers: { 'User-Agent': 'Mozilla/5.0 DocCrawler/1.0' },
-        signal: controller.signal
-      }).catch(err => {
-        return { statusCode: 0, body: { text: () => Promise.resolve('') } };
+      const response = await this.fetcher.fetch(pageUrl, {
+        headers: { 'User-Agent': this.userAgent, ...conditionalHeaders },
+        signal: this.context.signal ? AbortSignal.any([controller.signal, this.context.signal]) : controller.signal
       });
+      const finalUrl = response.url || pageUrl;
 
-      clearTimeout(timeoutId);
+      if (response.status === 304 && this.httpCache && conditional) {
+        const cached = await this.httpCache.getBody(pageUrl);
+        if (cached === null) {
+          // The cached copy is gone, so ask for the full page instead
+          return this.fetchOnce(pageUrl, false);
+        }
+        this.notModified++;
+        return { status: 304, finalUrl, html: cached };
+      }
+
+      if (response.status === 429 || response.status >= 500) {
+        return {
+          status: response.status,
+          finalUrl,
+          retryable: true,
+          retryAfter: this.parseRetryAfter(response.headers.get('retry-after')),
+          error: `HTTP ${response.status}`
+        };
+      }
+
+      if (!response.ok) {
+        return { status: response.status, finalUrl, retryable: false, error: `HTTP ${response.status}` };
+      }
 
-      if ("statusCode" in response) {
-        return { content: '', links: [] };
+      const contentType = response.headers.get('content-type') ?? '';
+      if (contentType && !/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+        return { status: response.status, finalUrl, retryable: false, error: `Unsupported content type: ${contentType.split(';')[0]}` };
       }
 
       const html = await response.text();
       if (!html) {
-        return { content: '', links: [] };
+        return { status: response.status, finalUrl, retryable: false, error: 'Empty response body' };
       }
 
-      const $ = cheerio.load(html);
+      if (this.httpCache && this.isRemote(pageUrl)) {
+        await this.httpCache.store(pageUrl, html, response.headers.get('etag'), response.headers.get('last-modified'));
+      }
 
-      // Extract title
-      const title = $('title').text().trim();
+      return { status: response.status, finalUrl, html };
+    } catch (error) {
+      // A cancelled export leaves the page in the frontier instead of recording a failure
+      if (this.context.signal?.aborted) {
+        return { status: 0, retryable: false };
+      }
+      const timedOut = controller.signal.aborted;
+      return { status: 0, retryable: true, error: timedOut ? 'Request timed out' : (error as Error).message };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
 
-      // Extract all links
-      const links: string[] = [];
-      $('a').each((_, element) => {
-        const href = $(element).attr('href');
-        if (href) {
-          try {
-            // Resolve relative URLs
-            const absoluteUrl = new URL(href, pageUrl).toString();
-            links.push(absoluteUrl);
-          } catch (e) {
-            // Skip invalid URLs
-          }
+  /**
+   * Extract the title and links from a page, after plugins have edited it
+   */
+  private parsePage(html: string, pageUrl: string): FetchedPage {
+    const $ = cheerio.load(html);
+    if (this.plugins.size > 0) {
+      this.plugins.afterFetch($, pageUrl);
+      html = $.html();
+    }
+
+    // Extract title
+    const title = $('title').text().trim();
+
+    // Extract all links
+    const links: string[] = [];
+    $('a').each((_, element) => {
+      const href = $(element).attr('href');
+      if (href) {
+        try {
+          // Resolve relative URLs
+          const absoluteUrl = new URL(href, pageUrl).toString();
+          links.push(absoluteUrl);
+        } catch (e) {
+          // Skip invalid URLs
         }
-      });
+      }
+    });
 
-      // Return the page data
-      return {
-        content: html,
-        links,
-        title
-      };
-    } catch (error) {
-      return { content: '', links: [] };
+    // Capture the sidebar so pages can be exported in the site's reading order
+    const nav = extractNavigation($, pageUrl, this.config.navSelector);
+
+    // The canonical URL identifies pages served under several URLs
+    let canonical: string | undefined;
+    const canonicalHref = (this.config.useCanonical ?? true) ? $('link[rel="canonical"]').attr('href') : undefined;
+    if (canonicalHref) {
+      try {
+        canonical = new URL(canonicalHref, pageUrl).toString();
+      } catch (e) {
+        // Ignore invalid canonical URLs
+      }
+    }
+
+    // Return the page data
+    return {
+      content: html,
+      links,
+      title,
+      nav: nav.length > 0 ? nav : undefined,
+      canonical
+    };
+  }
+
+  /**
+   * Exponential backoff with jitter: half the delay is fixed, the other half random
+   */
+  private backoffDelay(attempt: number): number {
+    const delay = this.retryDelay * 2 ** attempt;
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
+  /**
+   * Parse a Retry-After header given in seconds or as an HTTP date
+   */
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Build a report of every URL the crawler touched
+   */
+  getReport(): CrawlReport {
+    const finishedAt = this.finishedAt ?? new Date();
+
+    // URLs still queued were cut off by a limit, or never reached
+    const cutOffReason = (record: CrawlRecord): SkipReason => this.stopReason ??
+      (this.isOverBudget(this.hostOf(record.url)) ? 'max-urls' : 'not-crawled');
+    const urls = [...this.records.values()].map(record => record.outcome === 'queued'
+      ? { ...record, outcome: 'skipped' as const, skipReason: cutOffReason(record) }
+      : record);
+
+    const brokenLinks = urls
+      .filter(record => record.outcome === 'failed')
+      .map(record => ({ url: record.url, status: record.status ?? 0, error: record.error, referrers: record.referrers }));
+    const redirects = urls
+      .filter(record => record.finalUrl)
+      .map(record => ({ url: record.url, finalUrl: record.finalUrl!, status: record.status }));
+    const duplicates = ReportWriter.listDuplicates(urls);
+
+    return {
+      seedUrl: this.seedUrl,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+      stopReason: this.stopReason,
+      summary: {
+        total: urls.length,
+        exported: urls.filter(record => record.outcome === 'exported').length,
+        failed: brokenLinks.length,
+        skipped: urls.filter(record => record.outcome === 'skipped').length,
+        redirected: redirects.length,
+        merged: duplicates.length
+      },
+      hosts: ReportWriter.summarizeHosts(urls),
+      duplicates,
+      brokenLinks,
+      redirects,
+      urls
+    };
+  }
+
+  /**
+   * Get the URLs that could not be fetched, with their status codes
+   */
+  getFailures(): FetchFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * Check robots.txt rules for a URL
+   */
+  private async isAllowedByRobots(url: string): Promise<boolean> {
+    if (!this.isRemote(url)) {
+      return true;
+    }
+    const rules = await this.robots.getRules(url);
+    return rules.isAllowed(url);
+  }
+
+  /**
+   * Get the minimum interval for a URL's host, using the larger of the configured delay and robots.txt Crawl-delay
+   */
+  private async getCrawlDelay(url: string): Promise<number> {
+    if (!this.isRemote(url)) {
+      return 0;
+    }
+    if (!this.respectRobots) {
+      return this.crawlDelay;
+    }
+    const rules = await this.robots.getRules(url);
+    return Math.max(this.crawlDelay, rules.crawlDelay ?? 0);
+  }
+
+  /**
+   * Host of a URL, including the port; per-host budgets, concurrency and stats are keyed by it
+   */
+  private hostOf(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch (e) {
+      return '';
+    }
+  }
+
+  /**
+   * Whether the crawl is confined to the seed's host
+   */
+  private isSingleHost(): boolean {
+    return this.config.sameDomain && !this.config.allowedDomains?.length;
+  }
+
+  /**
+   * Check if a host is in the allowlist of extra domains; "*.example.com" matches every subdomain
+   */
+  private isAllowedDomain(hostname: string): boolean {
+    return matchesDomain(hostname, this.config.allowedDomains ?? []);
+  }
+
+  /**
+   * Check if a host has used up its page budget
+   */
+  private isOverBudget(host: string): boolean {
+    return (this.hostCounts.get(host) ?? 0) >= this.maxUrlsPerDomain;
+  }
+
+  /**
+   * Count a fetched page against its host's budget
+   */
+  private countHost(host: string, delta: number): void {
+    const count = (this.hostCounts.get(host) ?? 0) + delta;
+    this.hostCounts.set(host, count);
+    if (delta > 0 && count === this.maxUrlsPerDomain && !this.isSingleHost()) {
+      this.logger.info(`Reached maximum number of URLs for ${host}`);
     }
   }
 
+  /**
+   * Whether a URL is fetched from a live server, rather than from disk or an archive
+   */
+  private isRemote(url: string): boolean {
+    return this.fetcher.remote && /^https?:/.test(url);
+  }
+
   /**
    * Check if a URL has been visited
    */
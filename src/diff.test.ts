@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ExportDiffer } from './diff.js';
+
+const dir = path.join(os.tmpdir(), `diff-test-${process.pid}`);
+
+// A document.md in the layout the converter writes: anchor, title and source line, then a rule after each page
+const combined = (pages: { url: string; title: string; markdown: string }[]) =>
+  '# Documentation\n\n# Table of Contents\n\n---\n\n' + pages.map((page, i) =>
+    `<a id="page-${i}"></a>\n\n# ${page.title}\n\n*Source: [${page.url}](${page.url})*\n\n${page.markdown}\n\n---\n\n`).join('');
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`).join('\n');
+
+async function write(name: string, content: string): Promise<string> {
+  const file = path.join(dir, name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content);
+  return file;
+}
+
+beforeAll(() => fs.mkdir(dir, { recursive: true }));
+afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+describe('ExportDiffer', () => {
+  const differ = new ExportDiffer();
+
+  test('reports added, removed, modified and unchanged pages of combined exports', async () => {
+    const oldFile = await write('pages-old.md', combined([
+      { url: 'https://example.com/a', title: 'A', markdown: 'Same text' },
+      { url: 'https://example.com/b', title: 'B', markdown: 'Old text' },
+      { url: 'https://example.com/gone', title: 'Gone', markdown: 'Bye' }
+    ]));
+    const newFile = await write('pages-new.md', combined([
+      { url: 'https://example.com/new', title: 'New', markdown: 'Hello' },
+      { url: 'https://example.com/b', title: 'B2', markdown: 'Old text' },
+      { url: 'https://example.com/a', title: 'A', markdown: 'Same text' }
+    ]));
+
+    const diff = await differ.compare(oldFile, newFile);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, modified: 1, unchanged: 1 });
+    expect(diff.pages.map(page => [page.url, page.status])).toEqual([
+      ['https://example.com/new', 'added'],
+      ['https://example.com/b', 'modified'],
+      ['https://example.com/gone', 'removed']
+    ]);
+    expect(diff.pages[1]).toMatchObject({ title: 'B2', oldTitle: 'B', sections: [] });
+  });
+
+  test('numbers hunk lines from the start of the section', async () => {
+    const before = `# Guide\n\n${lines(20)}`;
+    const after = before.replace('line 10\n', 'line 10 changed\n').replace('line 19\n', '');
+    const oldFile = await write('hunks-old.md', combined([{ url: 'https://example.com/a', title: 'A', markdown: before }]));
+    const newFile = await write('hunks-new.md', combined([{ url: 'https://example.com/a', title: 'A', markdown: after }]));
+
+    const [section] = (await differ.compare(oldFile, newFile)).pages[0].sections;
+    expect(section.headings).toEqual(['Guide']);
+    expect(section.hunks.map(({ oldStart, oldLines, newStart, newLines }) => [oldStart, oldLines, newStart, newLines])).toEqual([
+      [9, 7, 9, 7],
+      [18, 5, 18, 4]
+    ]);
+    expect(section.hunks[0].lines).toEqual([
+      ' line 7', ' line 8', ' line 9', '-line 10', '+line 10 changed', ' line 11', ' line 12', ' line 13'
+    ]);
+    expect(section.hunks[1].lines).toEqual([' line 16', ' line 17', ' line 18', '-line 19', ' line 20']);
+  });
+
+  test('merges changes closer than twice the context into one hunk', async () => {
+    const before = lines(12);
+    const after = before.replace('line 4\n', 'line four\n').replace('line 8\n', 'line eight\n');
+    const oldFile = await write('merge-old.md', combined([{ url: 'https://example.com/a', title: 'A', markdown: before }]));
+    const newFile = await write('merge-new.md', combined([{ url: 'https://example.com/a', title: 'A', markdown: after }]));
+
+    const [section] = (await differ.compare(oldFile, newFile)).pages[0].sections;
+    expect(section.headings).toEqual([]);
+    expect(section.hunks).toHaveLength(1);
+    expect(section.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 11, newStart: 1, newLines: 11 });
+  });
+
+  test('matches sections by heading breadcrumb and reports added and removed sections', async () => {
+    const oldFile = await write('sections-old.md', combined([
+      { url: 'https://example.com/a', title: 'A', markdown: '# Install\n\nSteps\n\n# Legacy\n\nOld API' }
+    ]));
+    const newFile = await write('sections-new.md', combined([
+      { url: 'https://example.com/a', title: 'A', markdown: '# Usage\n\nRun it\n\n# Install\n\nSteps' }
+    ]));
+
+    const sections = (await differ.compare(oldFile, newFile)).pages[0].sections;
+    expect(sections.map(section => [section.headings.join(' > '), section.status])).toEqual([
+      ['Usage', 'added'],
+      ['Legacy', 'removed']
+    ]);
+    expect(sections[0].hunks[0]).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 3 });
+    expect(sections[1].hunks[0].lines).toEqual(['-# Legacy', '-', '-Old API']);
+  });
+
+  test('reads split exports and ignores their frontmatter dates', async () => {
+    const page = (date: string, text: string) =>
+      `---\ntitle: Intro\nsource: https://example.com/intro\ndate: ${date}\n---\n\n# Intro\n\n*Source: [https://example.com/intro](https://example.com/intro)*\n\n${text}`;
+    await write('split-old/docs/intro.md', page('2024-01-01', 'Hello'));
+    await write('split-new/docs/intro.md', page('2025-01-01', 'Hello'));
+    await write('split-new/index.md', '# Index');
+
+    const unchanged = await differ.compare(path.join(dir, 'split-old'), path.join(dir, 'split-new'));
+    expect(unchanged.summary).toEqual({ added: 0, removed: 0, modified: 0, unchanged: 1 });
+
+    await write('split-new/docs/intro.md', page('2025-01-01', 'Hello again'));
+    const modified = await differ.compare(path.join(dir, 'split-old'), path.join(dir, 'split-new'));
+    expect(modified.pages[0].sections[0].hunks[0].lines).toEqual(['-Hello', '+Hello again']);
+  });
+
+  test('fails on a missing export', async () => {
+    await expect(differ.compare(path.join(dir, 'missing'), path.join(dir, 'missing'))).rejects.toThrow('Export not found');
+  });
+
+  test('renders a changelog with section-relative hunk headers', async () => {
+    const oldFile = await write('md-old.md', combined([{ url: 'https://example.com/a', title: 'A', markdown: '# Setup\n\nUse `npm`' }]));
+    const newFile = await write('md-new.md', combined([{ url: 'https://example.com/a', title: 'A', markdown: '# Setup\n\nUse ```bun```' }]));
+
+    const markdown = ExportDiffer.toMarkdown(await differ.compare(oldFile, newFile));
+    expect(markdown).toContain('0 added, 0 removed, 1 modified and 0 unchanged pages.');
+    expect(markdown).toContain('Line numbers in the diffs count from the start of each section.');
+    expect(markdown).toContain('#### Setup\n\n````diff\n@@ -1,3 +1,3 @@\n # Setup\n \n-Use `npm`\n+Use ```bun```\n````');
+  });
+});
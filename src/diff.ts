@@ -0,0 +1,364 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MarkdownChunker } from './chunker.js';
+import { ConfigError } from './config.js';
+
+const MANIFEST_FILE = '.doc-export-manifest.json';
+const CONTEXT_LINES = 3;           // Unchanged lines shown around each change
+const MAX_DIFF_CELLS = 4_000_000;  // Larger sections are shown as removed and re-added instead of diffed line by line
+
+/**
+ * Page read back from an export
+ */
+interface ExportedPage {
+  url: string;
+  title: string;
+  markdown: string;
+}
+
+/**
+ * Run of changed lines with some unchanged lines around them. Line numbers count from the start of the section.
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Prefixed with ' ' (unchanged), '-' (removed) or '+' (added)
+}
+
+/**
+ * Changes under one heading of a page
+ */
+export interface SectionDiff {
+  headings: string[]; // Breadcrumb of the headings the section sits under; empty for the text before the first heading
+  status: 'added' | 'removed' | 'modified';
+  hunks: DiffHunk[];
+}
+
+/**
+ * Changes to one page, matched between the exports by source URL
+ */
+export interface PageDiff {
+  url: string;
+  status: 'added' | 'removed' | 'modified';
+  title: string;
+  oldTitle?: string;        // Set when a modified page changed its title
+  sections: SectionDiff[];  // Changed sections of a modified page
+}
+
+/**
+ * Differences between two exports
+ */
+export interface ExportDiff {
+  old: string;
+  new: string;
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+  };
+  pages: PageDiff[]; // Added and modified pages in the order of the new export, then removed pages
+}
+
+/**
+ * Compares two Markdown exports page by page. Pages are matched by source URL, so pages that only moved
+ * in the table of contents are unchanged, and the generated frontmatter such as export dates is ignored.
+ */
+export class ExportDiffer {
+  private chunker = new MarkdownChunker();
+
+  /**
+   * Compare an older export with a newer one; each is an output directory or its document.md
+   */
+  async compare(oldExport: string, newExport: string): Promise<ExportDiff> {
+    const oldPages = await this.readExport(oldExport);
+    const newPages = await this.readExport(newExport);
+    const oldByUrl = new Map(oldPages.map(page => [page.url, page]));
+    const newUrls = new Set(newPages.map(page => page.url));
+
+    const pages: PageDiff[] = [];
+    let unchanged = 0;
+    for (const page of newPages) {
+      const previous = oldByUrl.get(page.url);
+      if (!previous) {
+        pages.push({ url: page.url, status: 'added', title: page.title, sections: [] });
+        continue;
+      }
+
+      const sections = this.diffSections(previous.markdown, page.markdown);
+      if (sections.length === 0 && previous.title === page.title) {
+        unchanged++;
+        continue;
+      }
+      pages.push({
+        url: page.url,
+        status: 'modified',
+        title: page.title,
+        oldTitle: previous.title !== page.title ? previous.title : undefined,
+        sections
+      });
+    }
+    for (const page of oldPages) {
+      if (!newUrls.has(page.url)) {
+        pages.push({ url: page.url, status: 'removed', title: page.title, sections: [] });
+      }
+    }
+
+    const count = (status: PageDiff['status']) => pages.filter(page => page.status === status).length;
+    return {
+      old: oldExport,
+      new: newExport,
+      summary: { added: count('added'), removed: count('removed'), modified: count('modified'), unchanged },
+      pages
+    };
+  }
+
+  /**
+   * Render the differences as a Markdown changelog
+   */
+  static toMarkdown(diff: ExportDiff): string {
+    const { added, removed, modified, unchanged } = diff.summary;
+    let markdown = '# Documentation Changes\n\n';
+    markdown += `Comparing \`${diff.old}\` with \`${diff.new}\`: `;
+    markdown += `${added} added, ${removed} removed, ${modified} modified and ${unchanged} unchanged pages.\n\n`;
+    if (diff.pages.length === 0) {
+      return markdown + 'No changes.\n';
+    }
+
+    const link = (page: PageDiff) => `[${page.title || page.url}](${page.url})`;
+    for (const [status, heading] of [['added', 'Added Pages'], ['removed', 'Removed Pages']] as const) {
+      const pages = diff.pages.filter(page => page.status === status);
+      if (pages.length > 0) {
+        markdown += `## ${heading}\n\n`;
+        markdown += pages.map(page => `- ${link(page)}`).join('\n') + '\n\n';
+      }
+    }
+
+    const modifiedPages = diff.pages.filter(page => page.status === 'modified');
+    if (modifiedPages.length > 0) {
+      markdown += '## Modified Pages\n\n';
+      markdown += 'Line numbers in the diffs count from the start of each section.\n\n';
+    }
+    for (const page of modifiedPages) {
+      markdown += `### ${link(page)}\n\n`;
+      if (page.oldTitle !== undefined) {
+        markdown += `Title changed from "${page.oldTitle}".\n\n`;
+      }
+      for (const section of page.sections) {
+        const name = section.headings.join(' > ') || 'Introduction';
+        markdown += `#### ${name}${section.status === 'modified' ? '' : ` (${section.status})`}\n\n`;
+
+        // The fence must be longer than any backtick run in the diffed Markdown
+        const lines = section.hunks.flatMap(hunk => [
+          `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+          ...hunk.lines
+        ]);
+        const longestRun = Math.max(2, ...lines.map(line => Math.max(0, ...(line.match(/`+/g) ?? []).map(run => run.length))));
+        const fence = '`'.repeat(longestRun + 1);
+        markdown += `${fence}diff\n${lines.join('\n')}\n${fence}\n\n`;
+      }
+    }
+    return markdown.trimEnd() + '\n';
+  }
+
+  /**
+   * Read the pages of an export: the combined document.md, or the page files of a split export
+   */
+  private async readExport(exportPath: string): Promise<ExportedPage[]> {
+    const stat = await fs.stat(exportPath).catch(() => null);
+    if (!stat) {
+      throw new ConfigError(`Export not found: ${exportPath}`);
+    }
+    if (stat.isFile()) {
+      return this.parseCombined(await fs.readFile(exportPath, 'utf-8'));
+    }
+
+    // The manifest of an incremental export lists the current files; older exports are scanned
+    let files: string[];
+    try {
+      const manifest: Record<string, { file: string }> = JSON.parse(await fs.readFile(path.join(exportPath, MANIFEST_FILE), 'utf-8'));
+      files = [...new Set(Object.values(manifest).map(entry => entry.file))];
+    } catch (e) {
+      const entries = (await fs.readdir(exportPath, { recursive: true })).map(entry => entry.toString());
+      files = entries.includes('document.md')
+        ? ['document.md']
+        : entries.filter(entry => entry.endsWith('.md') && entry !== 'index.md' && !entry.split(path.sep).some(part => part.startsWith('.')));
+    }
+
+    const pages: ExportedPage[] = [];
+    for (const file of files) {
+      const content = await fs.readFile(path.join(exportPath, file), 'utf-8').catch(() => null);
+      if (content === null) {
+        continue;
+      }
+      if (file === 'document.md') {
+        pages.push(...this.parseCombined(content));
+      } else {
+        const page = this.parsePageFile(content);
+        if (page) {
+          pages.push(page);
+        }
+      }
+    }
+    if (pages.length === 0) {
+      throw new ConfigError(`No exported pages found in ${exportPath}; expected a document.md or the page files of a split export`);
+    }
+    return pages;
+  }
+
+  /**
+   * Pages of a combined document.md: each starts with its anchor, title and source line and ends with a rule
+   */
+  private parseCombined(content: string): ExportedPage[] {
+    const header = /^<a id="[^"]*"><\/a>\n\n# (.*)\n\n\*Source: \[(.+)\]\(\2\)\*\n\n/gm;
+    const matches = [...content.matchAll(header)];
+    return matches.map((match, i) => {
+      const end = i + 1 < matches.length ? matches[i + 1].index! : content.length;
+      const markdown = content.slice(match.index! + match[0].length, end).replace(/\n*---\n*$/, '');
+      return { url: match[2], title: match[1], markdown };
+    });
+  }
+
+  /**
+   * Page of a split export; the frontmatter is dropped apart from its title and source
+   */
+  private parsePageFile(content: string): ExportedPage | null {
+    const frontmatter = /^---\n([\s\S]*?)\n---\n\n/.exec(content);
+    const field = (name: string) => frontmatter?.[1].match(new RegExp(`^${name}: (.*)$`, 'm'))?.[1];
+    const url = field('source');
+    if (!frontmatter || !url) {
+      return null;
+    }
+    const title = field('title') ?? '';
+    const markdown = content.slice(frontmatter[0].length).replace(/^# .*\n\n\*Source: .*\*\n\n/, '');
+    return { url, title, markdown };
+  }
+
+  /**
+   * Compare two versions of a page section by section, matching sections by their heading breadcrumb
+   */
+  private diffSections(oldMarkdown: string, newMarkdown: string): SectionDiff[] {
+    const keyed = (markdown: string) => {
+      const sections = new Map<string, { headings: string[]; lines: string[] }>();
+      for (const section of this.chunker.splitSections(markdown)) {
+        // Repeated breadcrumbs, e.g. several "Example" headings, are told apart by occurrence
+        const base = JSON.stringify(section.headings);
+        let key = base;
+        for (let i = 2; sections.has(key); i++) {
+          key = `${base}#${i}`;
+        }
+        sections.set(key, { headings: section.headings, lines: section.text.split('\n') });
+      }
+      return sections;
+    };
+    const oldSections = keyed(oldMarkdown);
+    const newSections = keyed(newMarkdown);
+
+    const diffs: SectionDiff[] = [];
+    for (const [key, section] of newSections) {
+      const previous = oldSections.get(key);
+      const hunks = this.hunks(previous?.lines ?? [], section.lines);
+      if (hunks.length > 0) {
+        diffs.push({ headings: section.headings, status: previous ? 'modified' : 'added', hunks });
+      }
+    }
+    for (const [key, section] of oldSections) {
+      if (!newSections.has(key)) {
+        diffs.push({ headings: section.headings, status: 'removed', hunks: this.hunks(section.lines, []) });
+      }
+    }
+    return diffs;
+  }
+
+  /**
+   * Group the line changes between two texts into hunks with a few unchanged lines of context
+   */
+  private hunks(oldLines: string[], newLines: string[]): DiffHunk[] {
+    const edits = this.diffLines(oldLines, newLines);
+    const changed = edits.flatMap((edit, i) => edit.startsWith(' ') ? [] : [i]);
+
+    // Changes closer than twice the context share a hunk
+    const ranges: [number, number][] = [];
+    for (const i of changed) {
+      const start = Math.max(0, i - CONTEXT_LINES);
+      const last = ranges[ranges.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.min(edits.length, i + CONTEXT_LINES + 1);
+      } else {
+        ranges.push([start, Math.min(edits.length, i + CONTEXT_LINES + 1)]);
+      }
+    }
+
+    // Count the old and new lines ahead of each hunk while walking the edits once
+    let position = 0;
+    let oldBefore = 0;
+    let newBefore = 0;
+    return ranges.map(([start, end]) => {
+      for (; position < start; position++) {
+        oldBefore += edits[position].startsWith('+') ? 0 : 1;
+        newBefore += edits[position].startsWith('-') ? 0 : 1;
+      }
+      const lines = edits.slice(start, end);
+      const oldCount = lines.filter(line => !line.startsWith('+')).length;
+      const newCount = lines.filter(line => !line.startsWith('-')).length;
+      return {
+        oldStart: oldBefore + (oldCount > 0 ? 1 : 0),
+        oldLines: oldCount,
+        newStart: newBefore + (newCount > 0 ? 1 : 0),
+        newLines: newCount,
+        lines
+      };
+    });
+  }
+
+  /**
+   * Line diff from the longest common subsequence, after trimming the common start and end
+   */
+  private diffLines(a: string[], b: string[]): string[] {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+      start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+      endA--;
+      endB--;
+    }
+
+    const edits = a.slice(0, start).map(line => ` ${line}`);
+    const n = endA - start;
+    const m = endB - start;
+    if (n * m > MAX_DIFF_CELLS) {
+      edits.push(...a.slice(start, endA).map(line => `-${line}`), ...b.slice(start, endB).map(line => `+${line}`));
+    } else {
+      // lengths[i * (m + 1) + j]: longest common subsequence of the middle parts from line i of a and line j of b
+      const width = m + 1;
+      const lengths = new Uint32Array((n + 1) * width);
+      for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+          lengths[i * width + j] = a[start + i] === b[start + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+      }
+
+      let i = 0;
+      let j = 0;
+      while (i < n || j < m) {
+        if (i < n && j < m && a[start + i] === b[start + j]) {
+          edits.push(` ${a[start + i++]}`);
+          j++;
+        } else if (j >= m || (i < n && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+          edits.push(`-${a[start + i++]}`);
+        } else {
+          edits.push(`+${b[start + j++]}`);
+        }
+      }
+    }
+    edits.push(...a.slice(endA).map(line => ` ${line}`));
+    return edits;
+  }
+}
@@ -0,0 +1,306 @@
+import * as cheerio from 'cheerio';
+import JSZip from 'jszip';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Logger, silentLogger } from './logger.js';
+
+/**
+ * Book-level metadata written to the package document
+ */
+export interface EpubMetadata {
+  title: string;
+  sourceUrl?: string;
+  date: Date;
+  language?: string; // BCP 47 language tag (default: en)
+}
+
+/**
+ * A chapter of the book, one per exported page
+ */
+interface EpubChapter {
+  title: string;
+  level: number; // Depth in the table of contents
+  file: string;
+  body: string;  // XHTML body content
+}
+
+/**
+ * Chapter with the chapters nested under it in the table of contents
+ */
+interface TocNode {
+  chapter: EpubChapter;
+  children: TocNode[];
+}
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml'
+};
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 1em; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.2; page-break-after: avoid; }
+pre { background: #f6f8fa; padding: 0.6em; font-size: 0.8em; white-space: pre-wrap; word-wrap: break-word; }
+code { font-family: monospace; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #d1d9e0; padding: 0.3em 0.5em; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+blockquote { border-left: 3px solid #d1d9e0; margin-left: 0; padding-left: 1em; color: #444; }
+img { max-width: 100%; }
+.source { font-size: 0.85em; color: #59636e; }
+nav ol { list-style: none; padding-left: 1em; }
+`;
+
+/**
+ * Writes an EPUB 3 book (with an EPUB 2 NCX for older readers) from XHTML chapters
+ */
+export class EpubWriter {
+  private metadata: EpubMetadata;
+  private assetsDir: string;
+  private chapters: EpubChapter[] = [];
+  private images = new Set<string>(); // Asset file names referenced by chapters
+  private logger: Logger;
+
+  constructor(metadata: EpubMetadata, assetsDir: string, logger: Logger = silentLogger) {
+    this.metadata = metadata;
+    this.assetsDir = assetsDir;
+    this.logger = logger;
+  }
+
+  /**
+   * File name of the chapter at the given position, so links can point at chapters before they are added
+   */
+  static chapterFile(index: number): string {
+    return `chapter-${String(index + 1).padStart(3, '0')}.xhtml`;
+  }
+
+  /**
+   * Add the next chapter from HTML; it is converted to XHTML and local images are collected
+   */
+  addChapter(title: string, level: number, html: string): void {
+    const $ = cheerio.load(html, null, false);
+
+    // Remote images are not allowed without declaring them; keep their alt text instead
+    $('img').each((_, img) => {
+      const src = $(img).attr('src') ?? '';
+      if (src.startsWith('assets/') && MEDIA_TYPES[path.extname(src).toLowerCase()]) {
+        this.images.add(decodeURIComponent(src.slice('assets/'.length)));
+        $(img).attr('alt', $(img).attr('alt') ?? '');
+      } else {
+        $(img).replaceWith($('<span></span>').text($(img).attr('alt') ?? ''));
+      }
+    });
+
+    // GitHub-style alerts ("> [!NOTE]") get a visible label
+    $('blockquote > p:first-child').each((_, paragraph) => {
+      const html = $(paragraph).html() ?? '';
+      const alert = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*/.exec(html);
+      if (alert) {
+        const label = alert[1].charAt(0) + alert[1].slice(1).toLowerCase();
+        $(paragraph).html(`<strong>${label}</strong><br/>${html.slice(alert[0].length)}`);
+      }
+    });
+
+    // Fragment links must point at an id in the same chapter
+    $('a[href^="#"]').each((_, link) => {
+      const id = $(link).attr('href')!.slice(1);
+      if (!id || $(`[id="${id.replace(/"/g, '\\"')}"]`).length === 0) {
+        $(link).removeAttr('href');
+      }
+    });
+
+    this.chapters.push({ title, level, file: EpubWriter.chapterFile(this.chapters.length), body: $.xml() });
+  }
+
+  /**
+   * Package the chapters, navigation and images into an .epub file
+   */
+  async write(epubPath: string): Promise<void> {
+    const zip = new JSZip();
+    const identifier = this.identifier();
+
+    // The mimetype entry must come first and be stored uncompressed
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+
+    zip.file('OEBPS/style.css', STYLESHEET);
+    zip.file('OEBPS/title.xhtml', this.xhtmlDocument(this.metadata.title, this.titlePage()));
+    zip.file('OEBPS/nav.xhtml', this.xhtmlDocument('Table of Contents', this.navDocument()));
+    zip.file('OEBPS/toc.ncx', this.ncxDocument(identifier));
+    for (const chapter of this.chapters) {
+      zip.file(`OEBPS/${chapter.file}`, this.xhtmlDocument(chapter.title, chapter.body));
+    }
+
+    const imageFiles: string[] = [];
+    for (const image of this.images) {
+      try {
+        zip.file(`OEBPS/assets/${image}`, await fs.readFile(path.join(this.assetsDir, image)));
+        imageFiles.push(image);
+      } catch (e) {
+        this.logger.warn(`EPUB: missing image ${image}`);
+      }
+    }
+
+    zip.file('OEBPS/content.opf', this.packageDocument(identifier, imageFiles));
+
+    const content = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', mimeType: 'application/epub+zip' });
+    await fs.writeFile(epubPath, content);
+  }
+
+  /**
+   * Package document: metadata, manifest of every file and the reading order
+   */
+  private packageDocument(identifier: string, imageFiles: string[]): string {
+    const { title, sourceUrl, date } = this.metadata;
+    const modified = date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+    const manifest = [
+      '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+      '<item id="style" href="style.css" media-type="text/css"/>',
+      '<item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>',
+      ...this.chapters.map(chapter =>
+        `<item id="${path.basename(chapter.file, '.xhtml')}" href="${chapter.file}" media-type="application/xhtml+xml"/>`),
+      ...imageFiles.map((image, i) =>
+        `<item id="image-${i + 1}" href="assets/${this.escape(encodeURI(image))}" media-type="${MEDIA_TYPES[path.extname(image).toLowerCase()]}"/>`)
+    ];
+    const spine = [
+      '<itemref idref="title-page"/>',
+      '<itemref idref="nav"/>',
+      ...this.chapters.map(chapter => `<itemref idref="${path.basename(chapter.file, '.xhtml')}"/>`)
+    ];
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${this.language()}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${this.escape(title)}</dc:title>
+    <dc:language>${this.language()}</dc:language>
+    <dc:date>${modified}</dc:date>
+${sourceUrl ? `    <dc:source>${this.escape(sourceUrl)}</dc:source>\n` : ''}    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine toc="ncx">
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`;
+  }
+
+  /**
+   * EPUB 3 navigation document, nested like the table of contents
+   */
+  private navDocument(): string {
+    const renderList = (nodes: TocNode[]): string => `<ol>${nodes.map(node =>
+      `<li><a href="${node.chapter.file}">${this.escape(node.chapter.title)}</a>${node.children.length > 0 ? renderList(node.children) : ''}</li>`
+    ).join('')}</ol>`;
+
+    return `<nav epub:type="toc" id="toc"><h1>Table of Contents</h1>${renderList(this.tocTree())}</nav>`;
+  }
+
+  /**
+   * EPUB 2 table of contents, for readers without EPUB 3 navigation support
+   */
+  private ncxDocument(identifier: string): string {
+    let playOrder = 0;
+    let maxDepth = 1;
+    const renderPoints = (nodes: TocNode[], depth: number): string => nodes.map(node => {
+      maxDepth = Math.max(maxDepth, depth);
+      const order = ++playOrder;
+      return `<navPoint id="nav-${order}" playOrder="${order}"><navLabel><text>${this.escape(node.chapter.title)}</text></navLabel>` +
+        `<content src="${node.chapter.file}"/>${renderPoints(node.children, depth + 1)}</navPoint>`;
+    }).join('');
+    const navMap = renderPoints(this.tocTree(), 1);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${identifier}"/>
+    <meta name="dtb:depth" content="${maxDepth}"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${this.escape(this.metadata.title)}</text></docTitle>
+  <navMap>${navMap}</navMap>
+</ncx>
+`;
+  }
+
+  /**
+   * Title page with the source URL and export date
+   */
+  private titlePage(): string {
+    const { title, sourceUrl, date } = this.metadata;
+    return `<h1>${this.escape(title)}</h1>` +
+      (sourceUrl ? `<p class="source">Source: <a href="${this.escape(sourceUrl)}">${this.escape(sourceUrl)}</a></p>` : '') +
+      `<p class="source">Exported on ${date.toISOString().slice(0, 10)}</p>`;
+  }
+
+  /**
+   * Wrap body content in an XHTML document
+   */
+  private xhtmlDocument(title: string, body: string): string {
+    const language = this.language();
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language}" xml:lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${this.escape(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Nest chapters by their table of contents level
+   */
+  private tocTree(): TocNode[] {
+    const roots: TocNode[] = [];
+    const stack: TocNode[] = [];
+    for (const chapter of this.chapters) {
+      const node: TocNode = { chapter, children: [] };
+      stack.length = Math.min(chapter.level, stack.length);
+      (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+      stack.push(node);
+    }
+    return roots;
+  }
+
+  /**
+   * Stable identifier derived from the source URL, so re-exports of a site are recognized as the same book
+   */
+  private identifier(): string {
+    const hex = createHash('sha1').update(this.metadata.sourceUrl ?? this.metadata.title).digest('hex');
+    return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+  }
+
+  private language(): string {
+    const language = this.metadata.language;
+    return language && /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{1,8})*$/.test(language) ? language : 'en';
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,62 @@
+import { EventEmitter } from 'events';
+import { SkipReason } from './interfaces.js';
+import { Logger, silentLogger } from './logger.js';
+
+/**
+ * Payload of every export lifecycle event
+ */
+export interface ExportEventMap {
+  pageFetched: { url: string; status?: number; finalUrl?: string; title?: string; depth: number; durationMs: number };
+  pageSkipped: { url: string; reason: SkipReason; referrer?: string };
+  pageFailed: { url: string; status: number; error: string };
+  converted: { url: string; title: string; file: string };  // file: where the page's Markdown was written
+  written: { path: string };                                  // Export file written: pages, documents and reports
+}
+
+export type ExportEventName = keyof ExportEventMap;
+
+/**
+ * Typed emitter for export lifecycle events
+ */
+export class ExportEvents {
+  private emitter = new EventEmitter();
+
+  on<E extends ExportEventName>(event: E, listener: (payload: ExportEventMap[E]) => void): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<E extends ExportEventName>(event: E, listener: (payload: ExportEventMap[E]) => void): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<E extends ExportEventName>(event: E, listener: (payload: ExportEventMap[E]) => void): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  emit<E extends ExportEventName>(event: E, payload: ExportEventMap[E]): void {
+    this.emitter.emit(event, payload);
+  }
+}
+
+/**
+ * Runtime dependencies shared by the crawler and converter of one export
+ */
+export interface ExportContext {
+  logger: Logger;
+  events: ExportEvents;
+  signal?: AbortSignal;
+}
+
+/**
+ * Context for components used on their own: no output, events nobody listens to, no cancellation
+ */
+export function createContext(context: Partial<ExportContext> = {}): ExportContext {
+  return {
+    logger: context.logger ?? silentLogger,
+    events: context.events ?? new ExportEvents(),
+    signal: context.signal
+  };
+}
@@ -0,0 +1,241 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+
+/**
+ * Selectors for a known documentation generator
+ */
+export interface ContentPreset {
+  name: string;
+  detect: string[];          // Any matching selector identifies the generator
+  contentSelectors: string[]; // Tried in order, first match wins
+  removeSelectors: string[];
+}
+
+/**
+ * Options controlling main-content extraction
+ */
+export interface ExtractionOptions {
+  contentSelector?: string;
+  removeSelectors?: string[];
+  contentPreset?: string; // 'auto' (default), 'none', or a preset name
+}
+
+export const CONTENT_PRESETS: ContentPreset[] = [
+  {
+    name: 'docusaurus',
+    detect: ['meta[name="generator"][content*="Docusaurus"]', '.theme-doc-markdown'],
+    contentSelectors: ['article .theme-doc-markdown', '.theme-doc-markdown', 'article'],
+    removeSelectors: ['.theme-doc-toc-mobile', '.theme-doc-footer', '.theme-doc-breadcrumbs', '.theme-doc-version-badge', '.pagination-nav', '.hash-link']
+  },
+  {
+    name: 'mkdocs-material',
+    detect: ['meta[name="generator"][content*="mkdocs-material"]', '.md-content__inner'],
+    contentSelectors: ['.md-content__inner', '.md-content'],
+    removeSelectors: ['.md-content__button', '.headerlink', '.md-source-file', '.md-feedback']
+  },
+  {
+    name: 'sphinx',
+    detect: ['meta[name="generator"][content*="Sphinx"]', '.sphinxsidebar', '.wy-nav-content'],
+    contentSelectors: ['[itemprop="articleBody"]', 'div.body', 'div[role="main"]'],
+    removeSelectors: ['.headerlink', '.sphinxsidebar', '.related', '.rst-footer-buttons', '.wy-breadcrumbs']
+  },
+  {
+    name: 'gitbook',
+    detect: ['meta[name="generator"][content*="GitBook"]', '.gitbook-root'],
+    contentSelectors: ['main', '.page-inner section.normal'],
+    removeSelectors: ['body > header', 'aside', 'nav', 'footer', '[aria-label="Page navigation"]']
+  },
+  {
+    name: 'vitepress',
+    detect: ['meta[name="generator"][content*="VitePress"]', '#VPContent'],
+    contentSelectors: ['.vp-doc', 'main'],
+    removeSelectors: ['.header-anchor', '.edit-info', '.prev-next', '.VPDocFooter', '.VPDocAside', '.aside']
+  }
+];
+
+/**
+ * Elements that are almost never part of the main content
+ */
+const BOILERPLATE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'form',
+  'nav', 'aside', 'body > header', 'body > footer', 'footer',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="search"]',
+  '[class*="cookie"]', '[id*="cookie"]', '[class*="edit-this-page"]', '[class*="editThisPage"]',
+  '.skip-link', '.skip-to-content', '.breadcrumbs', '.toc', '#toc'
+];
+
+/**
+ * Split a comma-separated selector list, keeping commas inside parentheses or brackets
+ */
+export function splitSelectorList(list: string): string[] {
+  const selectors: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+
+    if (char === ',' && depth === 0) {
+      selectors.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  selectors.push(current.trim());
+
+  return selectors.filter(selector => selector);
+}
+
+/**
+ * Extracts the main content of a page, dropping site chrome such as headers, sidebars and footers
+ */
+export class ContentExtractor {
+  private options: ExtractionOptions;
+
+  constructor(options: ExtractionOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Return the HTML of the main content area of a page
+   */
+  extract(html: string): string {
+    const $ = cheerio.load(html);
+    const preset = this.resolvePreset($);
+    const removeSelectors = [...(preset?.removeSelectors ?? []), ...(this.options.removeSelectors ?? [])];
+
+    // An explicit selector wins, then the preset, then the heuristic
+    const contentSelectors = [
+      ...(this.options.contentSelector ? [this.options.contentSelector] : []),
+      ...(preset?.contentSelectors ?? [])
+    ];
+
+    for (const selector of contentSelectors) {
+      const matches = this.safeSelect($, selector);
+      if (matches && matches.length > 0) {
+        this.removeAll($, removeSelectors);
+        return matches.toArray().map(element => $.html(element)).join('\n');
+      }
+    }
+
+    this.removeAll($, [...BOILERPLATE_SELECTORS, ...removeSelectors]);
+    const best = this.findMainContent($);
+    return best ? $.html(best) : ($('body').html() ?? $.html());
+  }
+
+  /**
+   * Pick the configured preset, or detect one from the page when set to 'auto'
+   */
+  private resolvePreset($: CheerioAPI): ContentPreset | undefined {
+    const name = this.options.contentPreset ?? 'auto';
+    if (name === 'none') {
+      return undefined;
+    }
+    if (name !== 'auto') {
+      return CONTENT_PRESETS.find(preset => preset.name === name);
+    }
+    return CONTENT_PRESETS.find(preset => preset.detect.some(selector => {
+      const matches = this.safeSelect($, selector);
+      return !!matches && matches.length > 0;
+    }));
+  }
+
+  /**
+   * Readability-style scoring: paragraphs award points to their parent and grandparent,
+   * and the best candidate is penalized by its link density
+   */
+  private findMainContent($: CheerioAPI): Element | null {
+    const scores = new Map<Element, number>();
+
+    $('p, pre, blockquote, td, li, h2, h3').each((_, element) => {
+      const text = $(element).text().trim();
+      if (text.length < 25) {
+        return;
+      }
+
+      const points = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+      const parent = element.parent;
+      const grandparent = parent?.parent;
+
+      if (parent && parent.type === 'tag') {
+        scores.set(parent, (scores.get(parent) ?? this.initialScore($, parent)) + points);
+      }
+      if (grandparent && grandparent.type === 'tag') {
+        scores.set(grandparent, (scores.get(grandparent) ?? this.initialScore($, grandparent)) + points / 2);
+      }
+    });
+
+    let best: Element | null = null;
+    let bestScore = 0;
+    for (const [element, score] of scores) {
+      const adjusted = score * (1 - this.linkDensity($, element));
+      if (adjusted > bestScore) {
+        best = element;
+        bestScore = adjusted;
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    // Widen to an enclosing article/main so the page heading and intro are kept
+    const container = $(best).closest('article, main, [role="main"]').get(0) as Element | undefined;
+    if (container && this.linkDensity($, container) < 0.33) {
+      return container;
+    }
+
+    return best;
+  }
+
+  /**
+   * Starting score based on the element's tag and class names
+   */
+  private initialScore($: CheerioAPI, element: Element): number {
+    const tag = element.name.toLowerCase();
+    const hint = `${$(element).attr('class') ?? ''} ${$(element).attr('id') ?? ''}`.toLowerCase();
+    let score = 0;
+
+    if (tag === 'article' || tag === 'main') score += 10;
+    if (tag === 'div' || tag === 'section') score += 5;
+    if (/content|article|markdown|doc|body|main|prose/.test(hint)) score += 25;
+    if (/sidebar|menu|nav|footer|header|comment|banner|toc/.test(hint)) score -= 25;
+
+    return score;
+  }
+
+  /**
+   * Share of an element's text that sits inside links
+   */
+  private linkDensity($: CheerioAPI, element: Element): number {
+    const textLength = $(element).text().trim().length;
+    if (textLength === 0) {
+      return 0;
+    }
+    const linkLength = $(element).find('a').text().trim().length;
+    return linkLength / textLength;
+  }
+
+  /**
+   * Remove every element matching the given selectors, ignoring invalid ones
+   */
+  private removeAll($: CheerioAPI, selectors: string[]): void {
+    for (const selector of selectors) {
+      this.safeSelect($, selector)?.remove();
+    }
+  }
+
+  /**
+   * Run a selector, returning null instead of throwing on invalid syntax
+   */
+  private safeSelect($: CheerioAPI, selector: string) {
+    try {
+      return $(selector);
+    } catch (e) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { CrawlerConfig } from './interfaces.js';
+import { RequestSession } from './session.js';
+import { ENCODING_HEADERS, MAX_REDIRECTS, REDIRECT_STATUSES, WarcArchive, WarcResponse, WarcWriter } from './warc.js';
+
+// Statuses whose responses cannot carry a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.xhtml': 'application/xhtml+xml',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain; charset=utf-8',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.bmp': 'image/bmp',
+  '.gz': 'application/gzip'
+};
+
+type ProxyFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface FetcherOptions {
+  recorder?: WarcWriter;
+  sites?: string[];      // Seed URLs whose hosts receive credentials
+}
+
+/**
+ * Source of pages, robots.txt, sitemaps and assets. Implementations answer like global fetch,
+ * from the network, a local directory or a WARC archive.
+ */
+export interface Fetcher {
+  readonly remote: boolean; // Requests reach a live server, so robots.txt, crawl delays and the HTTP cache apply
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+  flush?(): Promise<void>;  // Wait for pending writes, e.g. to a WARC file
+}
+
+/**
+ * Fetches over HTTP through a request session that adds the configured headers, credentials, cookies
+ * and proxy. Redirects are followed hop by hop, so each hop gets the credentials of its own host and
+ * scheme (a redirect from https to plain http drops them) and can be recorded into a WARC file. Redirects to
+ * other schemes are not followed. file:// URLs are read from disk only when a crawled site is a file:// URL,
+ * so remote pages cannot pull in local files.
+ */
+export class HttpFetcher implements Fetcher {
+  readonly remote = true;
+  private recorder?: WarcWriter;
+  private session: RequestSession;
+  private files = new FileFetcher();
+  private localFiles = false; // Whether a crawled site is a file:// URL
+  private proxyAgents = new Map<string, Promise<ProxyFetch>>();
+
+  constructor(recorder?: WarcWriter, session = new RequestSession()) {
+    this.recorder = recorder;
+    this.session = session;
+  }
+
+  /**
+   * Add the host of a crawled site to the hosts that receive credentials; a file:// site allows reading local files
+   */
+  addSite(url: string): void {
+    this.session.addSite(url);
+    if (url.startsWith('file:')) {
+      this.localFiles = true;
+    }
+  }
+
+  /**
+   * Hosts that receive credentials, cookies and unscoped headers
+   */
+  get scope(): string[] {
+    return this.session.scope;
+  }
+
+  /**
+   * Whether credentials are only sent over https
+   */
+  get httpsOnly(): boolean {
+    return this.session.httpsOnly;
+  }
+
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    if (url.startsWith('file:')) {
+      return this.localFiles ? this.files.fetch(url) : toResponse(url, notFound('Not a crawled local site'));
+    }
+
+    for (let hops = 0; ; hops++) {
+      const response = await this.send(url, init);
+      await this.session.storeCookies(url, response);
+      const location = response.headers.get('location');
+      const target = location && URL.canParse(location, url) ? new URL(location, url) : null;
+      // A redirect to another scheme, e.g. file:, is returned as is
+      const redirected = REDIRECT_STATUSES.includes(response.status) && !!target && hops < MAX_REDIRECTS
+        && (target.protocol === 'http:' || target.protocol === 'https:');
+
+      let result = response;
+      if (this.recorder) {
+        const recorded: WarcResponse = {
+          status: response.status,
+          statusText: response.statusText,
+          // Cookies set by the server are session secrets, not page content
+          headers: [...response.headers.entries()].filter(([name]) => name.toLowerCase() !== 'set-cookie'),
+          body: Buffer.from(await response.arrayBuffer())
+        };
+        this.recorder.record(url, recorded);
+        result = toResponse(url, recorded);
+      } else if (redirected) {
+        await response.body?.cancel();
+      }
+
+      if (!redirected) {
+        return result;
+      }
+      url = target.toString();
+    }
+  }
+
+  flush(): Promise<void> {
+    return this.recorder?.flush() ?? Promise.resolve();
+  }
+
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    const request = { ...init, headers: await this.session.headers(url, init.headers), redirect: 'manual' as const };
+    const proxy = this.session.proxyFor(url);
+    if (!proxy) {
+      return fetch(url, request);
+    }
+    // Bun's fetch takes a proxy option; on Node the request goes through an undici ProxyAgent
+    if (process.versions.bun) {
+      return fetch(url, { ...request, proxy } as RequestInit);
+    }
+    const proxyFetch = await this.proxyFetch(proxy);
+    return proxyFetch(url, request);
+  }
+
+  private proxyFetch(proxy: string): Promise<ProxyFetch> {
+    let agent = this.proxyAgents.get(proxy);
+    if (!agent) {
+      agent = import('undici').then(({ fetch: undiciFetch, ProxyAgent }) => {
+        const dispatcher = new ProxyAgent(proxy);
+        return (url: string, init: RequestInit) =>
+          undiciFetch(url, { ...init, dispatcher } as Parameters<typeof undiciFetch>[1]) as unknown as Promise<Response>;
+      });
+      this.proxyAgents.set(proxy, agent);
+    }
+    return agent;
+  }
+}
+
+/**
+ * Serves file:// URLs from disk, and http(s) URLs from a local directory such as a built static site,
+ * mapping the URL path onto the directory whatever the host. Directories serve their index.html, and
+ * extensionless paths fall back to the .html file, like a static file server.
+ */
+export class FileFetcher implements Fetcher {
+  readonly remote = false;
+  private root?: string;
+
+  constructor(root?: string) {
+    this.root = root ? path.resolve(root) : undefined;
+  }
+
+  async fetch(url: string): Promise<Response> {
+    const target = new URL(url);
+    target.hash = '';
+    const root = target.protocol === 'file:' ? undefined : this.root;
+    if (!root && target.protocol !== 'file:') {
+      return toResponse(url, notFound('Not a local URL'));
+    }
+
+    const filePath = root
+      ? path.join(root, decodeURIComponent(target.pathname))
+      : fileURLToPath(target);
+    if (root && filePath !== root && !filePath.startsWith(root + path.sep)) {
+      return toResponse(url, notFound('Outside the local directory'));
+    }
+
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (stats?.isDirectory()) {
+      // Serve the directory under its trailing-slash URL so relative links resolve inside it
+      if (!target.pathname.endsWith('/')) {
+        target.pathname += '/';
+      }
+      return this.readFile(target.toString(), path.join(filePath, 'index.html'));
+    }
+    if (!stats && !path.extname(filePath)) {
+      return this.readFile(target.toString(), `${filePath}.html`);
+    }
+    return this.readFile(target.toString(), filePath);
+  }
+
+  private async readFile(url: string, filePath: string): Promise<Response> {
+    try {
+      const body = await fs.readFile(filePath);
+      const contentType = CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+      return toResponse(url, { status: 200, statusText: 'OK', headers: [['Content-Type', contentType]], body });
+    } catch (error) {
+      return toResponse(url, notFound('Not Found'));
+    }
+  }
+}
+
+/**
+ * Replays the responses stored in a WARC file, without touching the network
+ */
+export class WarcFetcher implements Fetcher {
+  readonly remote = false;
+  private archive: WarcArchive;
+
+  constructor(file: string) {
+    this.archive = new WarcArchive(file);
+  }
+
+  async fetch(url: string): Promise<Response> {
+    const found = await this.archive.get(url);
+    return found ? toResponse(found.url, found.response) : toResponse(url, notFound('Not in archive'));
+  }
+}
+
+/**
+ * Create the fetcher for a config: WARC replay, a local directory, or HTTP (recording into a WARC
+ * file if requested). Pass a recorder to share one WARC file between fetchers, and the seed URLs
+ * of the crawl so their hosts receive the configured credentials.
+ */
+export function createFetcher(config: Partial<CrawlerConfig>, options: FetcherOptions = {}): Fetcher {
+  if (config.warcInput) {
+    return new WarcFetcher(config.warcInput);
+  }
+  if (config.localDir) {
+    return new FileFetcher(config.localDir);
+  }
+  const recorder = options.recorder ?? (config.warcOutput ? new WarcWriter(config.warcOutput, config.resume) : undefined);
+  const fetcher = new HttpFetcher(recorder, new RequestSession({ ...config, sites: options.sites }));
+  for (const site of options.sites ?? []) {
+    fetcher.addSite(site);
+  }
+  return fetcher;
+}
+
+function notFound(statusText: string): WarcResponse {
+  return { status: 404, statusText, headers: [], body: Buffer.alloc(0) };
+}
+
+/**
+ * Build a fetch Response for a stored or local response, with its URL set like a fetched one
+ */
+function toResponse(url: string, stored: WarcResponse): Response {
+  const response = new Response(NULL_BODY_STATUSES.includes(stored.status) ? null : stored.body, {
+    status: stored.status,
+    statusText: stored.statusText,
+    headers: stored.headers.filter(([name]) => !ENCODING_HEADERS.includes(name.toLowerCase()))
+  });
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
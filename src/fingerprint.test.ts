@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { DuplicateDetector } from './fingerprint.js';
+
+// Deterministic text of many distinct words, long enough for SimHash matching
+const text = (prefix: string, count = 300) =>
+  Array.from({ length: count }, (_, i) => `${prefix}${(i * 7919) % 1009}`).join(' ');
+
+describe('DuplicateDetector', () => {
+  test('matches identical text regardless of case, punctuation and spacing', () => {
+    const detector = new DuplicateDetector();
+    expect(detector.add('https://example.com/a', 'Install the CLI. Then run it!')).toBeNull();
+    expect(detector.add('https://example.com/b', 'install   the cli, then RUN it')).toEqual({
+      url: 'https://example.com/a',
+      identical: true
+    });
+  });
+
+  test('ignores pages without words', () => {
+    const detector = new DuplicateDetector();
+    expect(detector.add('https://example.com/a', '')).toBeNull();
+    expect(detector.add('https://example.com/b', ' ... ')).toBeNull();
+  });
+
+  test('does not merge near-duplicates by default', () => {
+    const detector = new DuplicateDetector();
+    const edited = text('w').replace('w150 ', 'changed ');
+    expect(detector.add('https://example.com/a', text('w'))).toBeNull();
+    expect(detector.add('https://example.com/b', edited)).toBeNull();
+  });
+
+  test('matches text within a few bits of SimHash distance with nearDuplicates', () => {
+    const detector = new DuplicateDetector(true);
+    const words = text('w').split(' ');
+    words[40] = 'another';
+    words[150] = 'changed';
+    expect(detector.add('https://example.com/a', text('w'))).toBeNull();
+    expect(detector.add('https://example.com/b', words.join(' '))).toEqual({
+      url: 'https://example.com/a',
+      identical: false
+    });
+  });
+
+  test('keeps different text apart with nearDuplicates', () => {
+    const detector = new DuplicateDetector(true);
+    expect(detector.add('https://example.com/a', text('w'))).toBeNull();
+    expect(detector.add('https://example.com/b', text('x'))).toBeNull();
+  });
+
+  test('only matches short texts when they are identical', () => {
+    const detector = new DuplicateDetector(true);
+    expect(detector.add('https://example.com/a', text('w', 20))).toBeNull();
+    expect(detector.add('https://example.com/b', text('w', 20).replace('w0 ', 'changed '))).toBeNull();
+    expect(detector.add('https://example.com/c', text('w', 20))?.identical).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { createHash } from 'crypto';
+
+const SHINGLE_SIZE = 3;     // Words per shingle
+const MAX_DISTANCE = 3;     // Differing bits of two 64-bit fingerprints that still count as near-duplicates
+const MIN_SIMHASH_WORDS = 50; // Shorter texts only match when they are identical
+
+/**
+ * Fingerprint of a page's text
+ */
+interface Fingerprint {
+  url: string;
+  simhash: bigint;
+  exact: string; // Hash of the normalized text
+  words: number;
+}
+
+/**
+ * Earlier page a page repeats
+ */
+export interface DuplicateMatch {
+  url: string;
+  identical: boolean; // Same words; otherwise the text is only nearly the same
+}
+
+/**
+ * Finds pages whose main text is identical, or with nearDuplicates also nearly so, using 64-bit SimHash over word shingles
+ */
+export class DuplicateDetector {
+  private nearDuplicates: boolean;
+  private exact = new Map<string, string>(); // Hash of the normalized text -> first page with it
+  private fingerprints: Fingerprint[] = [];
+
+  constructor(nearDuplicates = false) {
+    this.nearDuplicates = nearDuplicates;
+  }
+
+  /**
+   * Check a page's text against the pages added so far. Returns the earlier duplicate,
+   * or registers the page and returns null.
+   */
+  add(url: string, text: string): DuplicateMatch | null {
+    const fingerprint = this.fingerprint(url, text);
+    if (fingerprint.words === 0) {
+      return null;
+    }
+
+    const identical = this.exact.get(fingerprint.exact);
+    if (identical) {
+      return { url: identical, identical: true };
+    }
+    this.exact.set(fingerprint.exact, url);
+    if (!this.nearDuplicates || fingerprint.words < MIN_SIMHASH_WORDS) {
+      return null;
+    }
+
+    const similar = this.fingerprints.find(other => this.distance(fingerprint.simhash, other.simhash) <= MAX_DISTANCE);
+    if (similar) {
+      return { url: similar.url, identical: false };
+    }
+    this.fingerprints.push(fingerprint);
+    return null;
+  }
+
+  private fingerprint(url: string, text: string): Fingerprint {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+    const exact = createHash('sha1').update(words.join(' ')).digest('hex');
+    if (!this.nearDuplicates) {
+      return { url, simhash: 0n, exact, words: words.length };
+    }
+
+    // Every shingle votes on each bit of the fingerprint
+    const votes = new Array<number>(64).fill(0);
+    const shingleCount = Math.max(1, words.length - SHINGLE_SIZE + 1);
+    for (let i = 0; i < shingleCount; i++) {
+      const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+      const digest = createHash('sha1').update(shingle).digest();
+      const low = digest.readUInt32BE(4);
+      const high = digest.readUInt32BE(0);
+      for (let bit = 0; bit < 32; bit++) {
+        votes[bit] += (low >>> bit) & 1 ? 1 : -1;
+        votes[bit + 32] += (high >>> bit) & 1 ? 1 : -1;
+      }
+    }
+
+    let simhash = 0n;
+    for (let bit = 0; bit < 64; bit++) {
+      if (votes[bit] > 0) {
+        simhash |= 1n << BigInt(bit);
+      }
+    }
+    return { url, simhash, exact, words: words.length };
+  }
+
+  /**
+   * Number of differing bits
+   */
+  private distance(a: bigint, b: bigint): number {
+    let diff = a ^ b;
+    let count = 0;
+    while (diff > 0n) {
+      count += Number(diff & 1n);
+      diff >>= 1n;
+    }
+    return count;
+  }
+}
@@ -2,9 +2,94 @@
 import { Command } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { ParallelCrawler } from './crawler.js';
-import { DocumentConverter } from './converter.js';
+import { pathToFileURL } from 'url';
 import { CrawlerConfig } from './interfaces.js';
+import { CONTENT_PRESETS, splitSelectorList } from './extractor.js';
+import { DEFAULT_ASSET_TYPES } from './assets.js';
+import { CONFIG_FILES, ConfigError, ConfigValues, ExportJob, findConfigFile, loadConfigFile, resolveJobs } from './config.js';
+import { exportDocs, ExportError } from './pipeline.js';
+import { ConsoleLogger } from './logger.js';
+import { BUILTIN_PLUGINS } from './plugins.js';
+import { DEFAULT_INDEX_FILES } from './urls.js';
+import { splitPatterns } from './patterns.js';
+import { ExportDiffer } from './diff.js';
+
+/**
+ * Options parsed by commander; values are strings as typed, except flags and options with parsers
+ */
+interface CliOptions {
+  url?: string;
+  output?: string;
+  config?: string;
+  concurrency: string;
+  sameDomain: boolean;
+  allowedDomains?: string;
+  maxUrls: string;
+  maxTotalUrls?: string;
+  hostConcurrency?: string;
+  requestTimeout: string;
+  maxRuntime: string;
+  retries: string;
+  retryDelay: string;
+  format: CrawlerConfig['outputFormat'];
+  pdfPageSize: string;
+  pdfMargin: string;
+  pdfCover: boolean;
+  pdfFont?: string;
+  llmsLinks: CrawlerConfig['llmsLinks'];
+  chunkSize: string;
+  chunkUnit: CrawlerConfig['chunkUnit'];
+  chunkOverlap: string;
+  splitPages: string;
+  allowedPrefixes?: string;
+  ignorePrefixes?: string;
+  include?: string;
+  exclude?: string;
+  maxDepth?: string;
+  frontier: CrawlerConfig['frontierOrder'];
+  markUncrawledLinks?: string | true;
+  ignoreRobots?: boolean;
+  crawlDelay: string;
+  keepTrailingSlash?: boolean;
+  indexFiles?: string;
+  ignoreCase?: boolean;
+  keepQuery?: string;
+  ignoreCanonical?: boolean;
+  keepDuplicates?: boolean;
+  mergeNearDuplicates?: boolean;
+  sitemap?: boolean;
+  sitemapSince?: string;
+  contentSelector?: string;
+  removeSelectors?: string;
+  contentPreset: string;
+  stateDir?: string;
+  resume?: boolean;
+  cacheDir?: string;
+  localDir?: string;
+  warc?: string;
+  saveWarc?: string;
+  userAgent?: string;
+  header?: string[];
+  auth?: string;
+  authDomains?: string;
+  cookies?: string;
+  proxy?: string;
+  proxyBypass?: string;
+  navSelector?: string;
+  assets?: boolean;
+  maxAssetSize: string;
+  assetTypes?: string;
+  plugins?: string;
+  report?: ConfigValues['report'];
+}
+
+/**
+ * Options of the diff command
+ */
+interface DiffOptions {
+  json?: boolean;
+  outFile?: string;
+}
 
 // Define CLI program
 const program = new Command();
@@ -15,27 +100,198 @@ program
   .version('1.0.0');
 
 program
-  .requiredOption('-u, --url <url>', 'URL to start crawling from')
-  .requiredOption('-o, --output <output>', 'Output directory for the exported document')
+  .option('-u, --url <url>', 'URL to start crawling from, or a local HTML file or directory (required without a config file)')
+  .option('-o, --output <output>', 'Output directory for the exported document (required without a config file)')
+  .option('--config <file>', `Config file with sources and profiles (found automatically by "run": ${CONFIG_FILES.join(', ')})`)
   .option('-c, --concurrency <concurrency>', 'Maximum number of concurrent requests', '5')
   .option('-s, --same-domain', 'Only crawl pages within the same domain', true)
+  .option('--no-same-domain', 'Also follow links to other domains, each with its own --max-urls budget')
+  .option('--allowed-domains <domains>', 'Comma-separated extra domains to crawl with --same-domain (e.g., "api.example.com,*.docs.example.com")')
   .option('-m, --max-urls <number>', 'Maximum URLs to crawl per domain', '200')
+  .option('--max-total-urls <number>', 'Maximum URLs to crawl across all domains (default: unlimited)')
+  .option('--host-concurrency <number>', 'Maximum concurrent requests to a single domain (default: --concurrency)')
   .option('--request-timeout <milliseconds>', 'Request timeout in milliseconds', '5000')
   .option('--max-runtime <milliseconds>', 'Maximum crawler run time in milliseconds', '30000')
+  .option('--retries <number>', 'Retries for timeouts, 5xx and 429 responses', '2')
+  .option('--retry-delay <milliseconds>', 'Base delay for exponential backoff between retries in milliseconds', '500')
+  .option('--format <format>', 'Output format: "markdown" (default), "pdf", "epub", "jsonl" or "llms" (Markdown plus document.pdf, .epub, .jsonl or llms.txt)', 'markdown')
+  .option('--pdf-page-size <size>', 'PDF paper size (e.g., "A4", "LETTER", "A5")', 'A4')
+  .option('--pdf-margin <points>', 'PDF page margin in points (72 points = 1 inch)', '56')
+  .option('--no-pdf-cover', 'Leave out the PDF cover page with the source URL and export date')
+  .option('--pdf-font <file>', 'TrueType font for PDF text, needed for non-Latin scripts')
+  .option('--llms-links <target>', 'Point llms.txt links at the "live" pages (default) or the exported Markdown "files"', 'live')
+  .option('--chunk-size <size>', 'Maximum JSONL chunk size, in --chunk-unit', '2000')
+  .option('--chunk-unit <unit>', 'Unit of --chunk-size and --chunk-overlap: "chars" or "tokens" (about 4 characters)', 'chars')
+  .option('--chunk-overlap <size>', 'Text repeated from the previous chunk when a section is split, in --chunk-unit', '0')
   .option('--split-pages <mode>', 'How to split pages: "none" (default), "subdirectories", or "flat"', 'none')
   .option('--allowed-prefixes <prefixes>', 'Comma-separated list of URL prefixes to crawl (e.g., "https://example.com/docs/,https://example.com/guides/")')
   .option('--ignore-prefixes <prefixes>', 'Comma-separated list of URL prefixes to ignore (e.g., "https://example.com/api/,https://example.com/admin/")')
+  .option('--include <patterns>', 'Comma-separated URL patterns to crawl: globs on the path (e.g., "/docs/**") or "re:" regular expressions')
+  .option('--exclude <patterns>', 'Comma-separated URL patterns never to crawl (e.g., "/docs/*/changelog,re:\\?print=")')
+  .option('--max-depth <n>', 'Maximum number of link hops from the start URL (default: unlimited)')
+  .option('--frontier <order>', 'Order of queued pages: "fifo" (discovery order), "shallow" (fewest hops first) or "nav" (navigation links first)', 'fifo')
+  .option('--mark-uncrawled-links [marker]', 'Append a marker (default: "↗") to links pointing at pages that were not crawled')
+  .option('--ignore-robots', 'Ignore robots.txt rules and Crawl-delay (for internal sites only)')
+  .option('--crawl-delay <milliseconds>', 'Minimum interval between requests to the same host in milliseconds', '100')
+  .option('--keep-trailing-slash', 'Treat /docs/intro and /docs/intro/ as different pages')
+  .option('--index-files <names>', `Comma-separated file names that stand for their directory (default: ${DEFAULT_INDEX_FILES.join(',')})`)
+  .option('--ignore-case', 'Treat URL paths that differ only in case as the same page')
+  .option('--keep-query <params>', 'Comma-separated query parameters that select different pages, or "*" for all (default: none, the query is dropped)')
+  .option('--ignore-canonical', 'Do not use <link rel="canonical"> to merge pages served under several URLs')
+  .option('--keep-duplicates', 'Export pages with identical content instead of merging them')
+  .option('--merge-near-duplicates', 'Also merge pages whose main content is nearly identical (SimHash)')
+  .option('--sitemap', 'Also queue URLs discovered from sitemap.xml and sitemaps listed in robots.txt')
+  .option('--sitemap-since <date>', 'Skip sitemap URLs whose <lastmod> is older than this date (e.g., "2024-01-01")')
+  .option('--content-selector <selector>', 'CSS selector for the main content area (e.g., "article.theme-doc-markdown")')
+  .option('--remove-selectors <selectors>', 'Comma-separated CSS selectors to remove from the content (e.g., "nav, footer, .toc")')
+  .option('--content-preset <preset>', `Content preset: "auto" (default), "none", or one of ${CONTENT_PRESETS.map(preset => `"${preset.name}"`).join(', ')}`, 'auto')
+  .option('--state-dir <dir>', 'Directory to checkpoint the crawl frontier, visited URLs and fetched pages')
+  .option('--resume', 'Continue the crawl saved in the state directory (default: <output>/.crawl-state)')
+  .option('--cache-dir <dir>', 'Directory for the HTTP cache used to send conditional requests on later runs')
+  .option('--local-dir <dir>', 'Read the pages of --url from this directory (e.g. a built static site) instead of the network')
+  .option('--warc <file>', 'Replay the responses stored in a WARC file (.warc or .warc.gz) instead of the network')
+  .option('--save-warc <file>', 'Save every HTTP response of the crawl to a WARC file, to re-run the conversion offline')
+  .option('--user-agent <agent>', 'User-Agent header sent with every request (default: Mozilla/5.0 DocCrawler/1.0)')
+  .option('--header <header>', 'Extra request header "Name: value", or "host Name: value" for one host; repeatable', (value: string, previous: string[] = []) => [...previous, value])
+  .option('--auth <scheme>', 'Send "basic" (DOC_EXPORT_USERNAME/DOC_EXPORT_PASSWORD) or "bearer" (DOC_EXPORT_TOKEN) credentials; "basic:USER_VAR:PASS_VAR" or "bearer:TOKEN_VAR" read other variables')
+  .option('--auth-domains <domains>', 'Comma-separated hosts that receive credentials and cookies (default: the start URL\'s host and --allowed-domains)')
+  .option('--cookies <file>', 'Cookie file in Netscape cookies.txt or JSON format; cookies set by the site are kept during the crawl')
+  .option('--proxy <url>', 'HTTP(S) proxy for all requests (default: HTTPS_PROXY / HTTP_PROXY environment variables)')
+  .option('--proxy-bypass <hosts>', 'Comma-separated hosts reached without the proxy (default: NO_PROXY)')
+  .option('--nav-selector <selector>', 'CSS selector for the site navigation used to order pages (default: common doc sidebars)')
+  .option('--assets', 'Download images (including srcset and inline SVG) into assets/ and link them locally')
+  .option('--max-asset-size <bytes>', 'Skip assets larger than this many bytes', '5242880')
+  .option('--asset-types <types>', `Comma-separated MIME types of assets to download (default: ${DEFAULT_ASSET_TYPES.join(',')})`)
+  .option('--plugins <plugins>', `Comma-separated plugins: built-in names (${BUILTIN_PLUGINS.map(plugin => plugin.name).join(', ')}) or module paths`)
+  .option('--report <format>', 'Also write the crawl report as "markdown" or "html" (crawl-report.json is always written)')
   .addHelpText('after', `
 Split Pages Modes:
   - none: All pages combined into a single document.md file (default)
   - subdirectories: Each page saved as a separate file in a pages/ subdirectory
   - flat: Each page saved as a separate file in the output directory with domain name in filename
     (e.g., example_com_page1.md)
+  Links between crawled pages are rewritten to the exported files (split modes)
+  or to page anchors inside document.md (none mode), so the export can be browsed offline.
+Multiple Domains:
+  --max-urls is a budget per domain. Use --allowed-domains to crawl a few related domains along with the start URL's,
+  or --no-same-domain to follow links anywhere (bounded by --max-total-urls and --max-runtime).
+  Use --host-concurrency to limit parallel requests to any one domain; the summary lists the pages of each domain.
 URL Prefix Filtering:
   Use --allowed-prefixes to only crawl pages with specific URL prefixes.
   Use --ignore-prefixes to skip pages with specific URL prefixes.
   Multiple prefixes can be specified as a comma-separated list for both options.
   Multiple prefixes can be specified as a comma-separated list.
+URL Patterns and Depth:
+  Use --include and --exclude for finer filtering than prefixes. Globs match the URL path ("*" within a segment,
+  "**" across segments, "?" one character, "{a,b}" alternatives), or the full URL when they contain "://".
+  Patterns starting with "re:" are regular expressions tested against the full URL. Excludes win over includes.
+  Use --max-depth to stop following links a number of hops from the start URL.
+  Use --frontier shallow or --frontier nav so the pages that matter most are fetched before limits are reached.
+  The crawl report lists the depth of every URL and the pattern that admitted or rejected it.
+robots.txt:
+  The crawler honors robots.txt Allow/Disallow rules and Crawl-delay by default.
+  Use --ignore-robots to crawl internal sites you control without these restrictions.
+  Use --crawl-delay to set the minimum interval between requests to the same host.
+URL Normalization and Duplicates:
+  URLs that differ only by a trailing slash, an index file (index.html), the fragment or a dropped query parameter
+  are crawled and exported once. Use --keep-query to keep parameters that select different pages, --ignore-case for
+  case-insensitive servers, and --index-files or --keep-trailing-slash to change the defaults.
+  Pages are exported under their <link rel="canonical"> URL, or the URL they redirect to, so each page is fetched once.
+  Pages whose main content is identical (e.g. printer-friendly copies) are exported once, the other URLs
+  are logged, listed as merged duplicates in the crawl report, and links to them point at the kept copy.
+  Use --ignore-canonical or --keep-duplicates to turn this off. --merge-near-duplicates also merges pages whose
+  content is nearly identical (e.g. versioned mirrors); it can merge distinct pages built from one template.
+Offline Sources:
+  Pass a local file or directory as --url to export an HTML site from disk; only files inside it are crawled.
+  Use --local-dir with the site's real --url to read a built static site (e.g. build/) from disk, so root-relative
+  links and canonical URLs still work. Directories serve their index.html, and /docs/intro falls back to /docs/intro.html.
+  Use --save-warc to record every response of an HTTP crawl, then --warc to re-run the export from the archive
+  without touching the network. robots.txt, crawl delays and the HTTP cache only apply to live servers.
+Headers, Authentication and Proxies:
+  Use --header for extra request headers; prefix a header with a host to send it to that host only.
+  --auth reads credentials from environment variables so they never appear on the command line, and --cookies
+  loads a cookies.txt or JSON cookie file; cookies the site sets (e.g. after a login redirect) are kept during the crawl.
+  Credentials, cookies and headers without a host are only sent to the start URL's host and --allowed-domains (or
+  --auth-domains), including after redirects, and are never written to the exported files or reports. When the start
+  URL is https they are never sent over plain http.
+  Requests go through --proxy, or HTTPS_PROXY / HTTP_PROXY when set, except for --proxy-bypass / NO_PROXY hosts.
+Sitemaps:
+  Use --sitemap to seed the crawl from /sitemap.xml, sitemaps listed in robots.txt and nested sitemap indexes.
+  Sitemap URLs are queued most recently modified first and pass through the same prefix filters.
+  Use --sitemap-since to skip pages whose <lastmod> is older than the given date.
+Content Extraction:
+  Only the main content of each page is converted; headers, sidebars and footers are dropped.
+  By default the doc generator is detected (Docusaurus, MkDocs Material, Sphinx, GitBook, VitePress),
+  falling back to a readability-style heuristic. Use --content-preset none to always use the heuristic.
+  Use --content-selector to pick the content area and --remove-selectors to drop extra elements.
+
+Resumable Crawls:
+  Use --state-dir to keep the frontier, visited URLs and fetched pages on disk while crawling.
+  Use --resume to continue where the last run stopped (e.g., after --max-runtime was reached).
+  A resumed crawl produces the same output as one uninterrupted crawl.
+
+Incremental Re-export:
+  Use --cache-dir to keep each page's ETag, Last-Modified and body between runs.
+  Later runs send If-None-Match/If-Modified-Since and reuse the cached body on 304 Not Modified.
+  In split modes only changed pages are rewritten; a summary of added, changed and removed pages is printed.
+
+Retries:
+  Timeouts, 5xx and 429 responses are retried up to --retries times with exponential backoff and jitter,
+  starting at --retry-delay. A Retry-After header from the server takes precedence.
+  Other non-2xx responses and non-HTML content are not exported and are listed as failures.
+
+Crawl Report:
+  Every run writes crawl-report.json to the output directory, listing every URL the crawler touched
+  with its status, final URL after redirects, referrer, depth, timing and skip reason.
+  Use --report markdown or --report html for a human-readable version (useful as a link checker).
+
+PDF Output:
+  Use --format pdf to also render the export to document.pdf, without a browser. The PDF has a cover page,
+  a linked table of contents, a bookmark outline that follows it, page numbers, tables, highlighted code
+  and the images downloaded with --assets (PNG and JPEG). Standard PDF fonts only cover Western European
+  text; use --pdf-font with a .ttf file for other scripts.
+
+EPUB Output:
+  Use --format epub to also write document.epub for e-readers: one chapter per page, a navigation document
+  that mirrors the table of contents, and the title, source URL and export date as book metadata.
+  Images downloaded with --assets are embedded; other images are replaced by their alt text.
+
+JSONL Output:
+  Use --format jsonl to also write document.jsonl for retrieval pipelines. Each page is split at its headings;
+  sections larger than --chunk-size are split on paragraphs, repeating --chunk-overlap of the previous chunk.
+  Every record has an id from the URL and heading breadcrumb, the page title, breadcrumb, chunk index and a
+  SHA-256 of its text.
+
+llms.txt Output:
+  Use --format llms to also write llms.txt and llms-full.txt. llms.txt has the site title, the start page's
+  meta description and a section of links per folder, each with a one-line description. llms-full.txt has
+  the cleaned Markdown of every page. Use --llms-links files to link the exported Markdown files instead.
+
+Config Files:
+  "doc-export run [profile]" reads doc-export.config.{ts,js,json,yaml} from the working directory (or --config).
+  The file has "defaults", "sources" (seed "urls" plus CrawlerConfig settings each) and "profiles" selecting
+  sources, exported together with "combine": true or one by one. Command line options override file values.
+
+Plugins:
+  Use --plugins to apply per-site fixes. Built-in plugins unwrap the tab widgets of Docusaurus, MkDocs Material,
+  Sphinx and VitePress and skip their tag and index pages; page-feedback drops "Was this page helpful?" blocks.
+  A plugin module default-exports an object with a name and any of the hooks filterUrl, afterFetch,
+  turndownRules, afterMarkdown, beforeWrite and beforeWriteChunk. beforeWrite gets whole files, so document.md,
+  llms-full.txt and document.jsonl are then built in memory; beforeWriteChunk edits them piece by piece.
+
+Comparing Exports:
+  "doc-export diff <oldExport> <newExport>" compares two exports (output directories or document.md files).
+  Pages are matched by source URL and reported as added, removed or modified, with a diff of each changed
+  section. Export dates and page order are ignored. Use --json for CI, and --out-file to save the result.
+
+Page Order:
+  Pages are exported in the order of the site's sidebar, and the table of contents follows its nesting.
+  Pages missing from the sidebar are nested by URL path. Use --nav-selector if the sidebar is not detected.
+
+Assets:
+  Use --assets to download the images of each page into assets/ and point the Markdown at the local copies.
+  The largest srcset candidate is used, inline SVGs are saved as .svg files, and identical files are stored once.
+  Use --max-asset-size and --asset-types to limit what is downloaded; skipped images keep their remote URL.
 
 Examples:
   $ bun run src/index.ts --url https://example.com --split-pages none
@@ -43,104 +299,380 @@ Examples:
   $ bun run src/index.ts --url https://example.com --split-pages flat
   $ bun run src/index.ts --url https://example.com --allowed-prefixes https://example.com/docs/,https://example.com/guides/
   $ bun run src/index.ts --url https://example.com --ignore-prefixes https://example.com/api/,https://example.com/admin/
+  $ bun run src/index.ts --url https://example.com/docs/ --include "/docs/**" --exclude "/docs/*/changelog"
+  $ bun run src/index.ts --url https://example.com/docs/ --max-depth 3 --frontier nav --max-urls 100
+  $ bun run src/index.ts --url https://docs.example.com --allowed-domains api.example.com --host-concurrency 2
+  $ bun run src/index.ts --url https://example.com/links --no-same-domain --max-urls 20 --max-total-urls 500
+  $ bun run src/index.ts --url https://intranet.example.com --ignore-robots --crawl-delay 0
+  $ bun run src/index.ts --url https://example.com/docs/ --keep-query lang,version --ignore-case
+  $ bun run src/index.ts --url https://example.com/docs/ --sitemap --allowed-prefixes https://example.com/docs/
+  $ bun run src/index.ts --url https://example.com/docs/ --state-dir ./state --resume
+  $ bun run src/index.ts --url https://example.com/docs/ --split-pages subdirectories --cache-dir ./http-cache
+  $ bun run src/index.ts --url https://example.com/docs/ --report html
+  $ bun run src/index.ts --url https://docs.example.com/ --local-dir ./build --split-pages subdirectories
+  $ bun run src/index.ts --url https://example.com/docs/ --save-warc ./docs.warc.gz
+  $ bun run src/index.ts --url https://example.com/docs/ --warc ./docs.warc.gz --format pdf
+  $ DOC_EXPORT_TOKEN=... bun run src/index.ts --url https://intranet.example.com/docs/ --auth bearer
+  $ bun run src/index.ts --url https://example.com/docs/ --cookies ./cookies.txt --header "Accept-Language: en"
+  $ bun run src/index.ts --url https://example.com/docs/ --header "api.example.com X-Api-Key: $API_KEY" --allowed-domains api.example.com
+  $ bun run src/index.ts --url https://example.com/docs/ --user-agent "MyDocsBot/1.0" --proxy http://proxy.internal:3128
+  $ bun run src/index.ts run frontend --max-urls 500
+  $ bun run src/index.ts diff ./docs-last-week ./docs --out-file CHANGELOG.md
+  $ bun run src/index.ts --config ./docs/doc-export.config.yaml
+  $ bun run src/index.ts --url https://example.com/docs/ --format pdf --assets --pdf-page-size LETTER
+  $ bun run src/index.ts --url https://example.com/docs/ --format epub --assets
+  $ bun run src/index.ts --url https://example.com/docs/ --format llms --split-pages flat --llms-links files
+  $ bun run src/index.ts --url https://example.com/docs/ --format jsonl --chunk-size 512 --chunk-unit tokens --chunk-overlap 64
+  $ bun run src/index.ts --url https://example.com/docs/ --split-pages subdirectories --assets --max-asset-size 1048576
+  $ bun run src/index.ts --url https://example.com/docs/ --plugins docusaurus,page-feedback,./fix-links.ts
+  $ bun run src/index.ts --url https://example.com/docs/ --content-selector article.theme-doc-markdown --remove-selectors "nav, footer, .toc"
 `)
-  .action(async (options) => {
-    try {
-      console.time('Total execution time');
-
-      // Parse options
-      const config: CrawlerConfig = {
-        maxConcurrency: parseInt(options.concurrency),
-        sameDomain: options.sameDomain,
-        outputDir: path.resolve(options.output),
-        maxUrlsPerDomain: parseInt(options.maxUrls),
-        requestTimeout: parseInt(options.requestTimeout),
-        maxRunTime: parseInt(options.maxRuntime),
-        splitPages: options.splitPages === true ? 'subdirectories' :
-                   (options.splitPages === false ? 'none' :
-                   (options.splitPages === 'true' ? 'subdirectories' :
-                   (options.splitPages === 'false' ? 'none' : options.splitPages)))
-      };
-
-      // Parse allowed prefixes if provided
-      if (options.allowedPrefixes) {
-        config.allowedPrefixes = options.allowedPrefixes.split(',').map((prefix: string) => prefix.trim());
-        console.log(`Using URL prefix filter: ${config.allowedPrefixes!.join(', ')}`);
-      }
+  .action(async (options: CliOptions) => {
+    await main(options);
+  });
 
-      // Parse ignore prefixes if provided
-      if (options.ignorePrefixes) {
-        config.ignorePrefixes = options.ignorePrefixes.split(',').map((prefix: string) => prefix.trim());
-        console.log(`Using URL ignore filter: ${config.ignorePrefixes!.join(', ')}`);
-      }
+program
+  .command('run [profile]')
+  .description('Export a profile (or a single source) from the config file; without a name, every source')
+  .action(async (profile?: string) => {
+    await main(program.opts<CliOptions>(), profile, true);
+  });
 
-      // Validate options
-      if (isNaN(config.maxConcurrency) || config.maxConcurrency <= 0) {
-        console.error('Error: Concurrency must be a positive number');
-        process.exit(1);
-      }
+program
+  .command('diff <oldExport> <newExport>')
+  .description('Compare two exports and report added, removed and modified pages')
+  .option('--json', 'Print the changes as JSON instead of a Markdown changelog')
+  .option('--out-file <file>', 'Write the changes to a file instead of printing them')
+  .action(async (oldExport: string, newExport: string, options: DiffOptions) => {
+    await diff(oldExport, newExport, options);
+  });
 
-      if (isNaN(config.maxUrlsPerDomain!) || config.maxUrlsPerDomain! <= 0) {
-        console.error('Error: Max URLs per domain must be a positive number');
-        process.exit(1);
-      }
+/**
+ * Command line options that map onto CrawlerConfig fields, to let them override config file values
+ */
+const OPTION_KEYS: Partial<Record<keyof CliOptions, keyof ConfigValues>> = {
+  concurrency: 'maxConcurrency',
+  sameDomain: 'sameDomain',
+  allowedDomains: 'allowedDomains',
+  maxTotalUrls: 'maxTotalUrls',
+  hostConcurrency: 'maxConcurrencyPerHost',
+  output: 'outputDir',
+  maxUrls: 'maxUrlsPerDomain',
+  requestTimeout: 'requestTimeout',
+  maxRuntime: 'maxRunTime',
+  retries: 'maxRetries',
+  retryDelay: 'retryDelay',
+  format: 'outputFormat',
+  pdfPageSize: 'pdfPageSize',
+  pdfMargin: 'pdfMargin',
+  pdfCover: 'pdfCover',
+  pdfFont: 'pdfFont',
+  llmsLinks: 'llmsLinks',
+  chunkSize: 'chunkSize',
+  chunkUnit: 'chunkUnit',
+  chunkOverlap: 'chunkOverlap',
+  splitPages: 'splitPages',
+  allowedPrefixes: 'allowedPrefixes',
+  ignorePrefixes: 'ignorePrefixes',
+  include: 'includePatterns',
+  exclude: 'excludePatterns',
+  maxDepth: 'maxDepth',
+  frontier: 'frontierOrder',
+  markUncrawledLinks: 'uncrawledLinkMarker',
+  ignoreRobots: 'respectRobots',
+  crawlDelay: 'crawlDelay',
+  sitemap: 'useSitemap',
+  sitemapSince: 'sitemapSince',
+  contentSelector: 'contentSelector',
+  removeSelectors: 'removeSelectors',
+  contentPreset: 'contentPreset',
+  stateDir: 'stateDir',
+  resume: 'resume',
+  cacheDir: 'cacheDir',
+  localDir: 'localDir',
+  warc: 'warcInput',
+  saveWarc: 'warcOutput',
+  userAgent: 'userAgent',
+  header: 'headers',
+  auth: 'auth',
+  authDomains: 'authDomains',
+  cookies: 'cookieFile',
+  proxy: 'proxy',
+  proxyBypass: 'noProxy',
+  navSelector: 'navSelector',
+  assets: 'downloadAssets',
+  maxAssetSize: 'maxAssetSize',
+  assetTypes: 'assetTypes',
+  plugins: 'plugins',
+  keepTrailingSlash: 'ignoreTrailingSlash',
+  indexFiles: 'indexFiles',
+  ignoreCase: 'ignoreCase',
+  keepQuery: 'keepQueryParams',
+  ignoreCanonical: 'useCanonical',
+  keepDuplicates: 'dedupeContent',
+  mergeNearDuplicates: 'nearDuplicates',
+  report: 'report'
+};
 
-      if (isNaN(config.requestTimeout!) || config.requestTimeout! <= 0) {
-        console.error('Error: Request timeout must be a positive number');
-        process.exit(1);
-      }
+/**
+ * Build the crawler config from command line options, using the option defaults for anything not given
+ */
+function configFromOptions(options: CliOptions): CrawlerConfig {
+  const config: CrawlerConfig = {
+    maxConcurrency: parseInt(options.concurrency),
+    sameDomain: options.sameDomain,
+    outputDir: options.output ? path.resolve(options.output) : '',
+    maxUrlsPerDomain: parseInt(options.maxUrls),
+    requestTimeout: parseInt(options.requestTimeout),
+    maxRunTime: parseInt(options.maxRuntime),
+    maxRetries: parseInt(options.retries),
+    retryDelay: parseInt(options.retryDelay),
+    respectRobots: !options.ignoreRobots,
+    crawlDelay: parseInt(options.crawlDelay),
+    useSitemap: !!options.sitemap,
+    frontierOrder: options.frontier,
+    ignoreTrailingSlash: !options.keepTrailingSlash,
+    ignoreCase: !!options.ignoreCase,
+    useCanonical: !options.ignoreCanonical,
+    dedupeContent: !options.keepDuplicates,
+    nearDuplicates: !!options.mergeNearDuplicates,
+    contentSelector: options.contentSelector,
+    contentPreset: options.contentPreset,
+    navSelector: options.navSelector,
+    outputFormat: options.format,
+    pdfPageSize: options.pdfPageSize.toUpperCase(),
+    pdfMargin: parseInt(options.pdfMargin),
+    pdfCover: options.pdfCover,
+    pdfFont: options.pdfFont ? path.resolve(options.pdfFont) : undefined,
+    llmsLinks: options.llmsLinks,
+    chunkSize: parseInt(options.chunkSize),
+    chunkUnit: options.chunkUnit,
+    chunkOverlap: parseInt(options.chunkOverlap),
+    resume: !!options.resume,
+    downloadAssets: !!options.assets,
+    maxAssetSize: parseInt(options.maxAssetSize),
+    uncrawledLinkMarker: options.markUncrawledLinks === true ? '↗' : (options.markUncrawledLinks || undefined),
+    splitPages: options.splitPages === 'true' ? 'subdirectories' :
+               (options.splitPages === 'false' ? 'none' : options.splitPages as CrawlerConfig['splitPages'])
+  };
 
-      if (isNaN(config.maxRunTime!) || config.maxRunTime! <= 0) {
-        console.error('Error: Max runtime must be a positive number');
-        process.exit(1);
-      }
+  // Parse allowed prefixes if provided
+  if (options.allowedPrefixes) {
+    config.allowedPrefixes = options.allowedPrefixes.split(',').map((prefix: string) => prefix.trim());
+  }
 
-      // Ensure output directory exists
-      await fs.mkdir(config.outputDir, { recursive: true });
+  // Parse ignore prefixes if provided
+  if (options.ignorePrefixes) {
+    config.ignorePrefixes = options.ignorePrefixes.split(',').map((prefix: string) => prefix.trim());
+  }
 
-      // Initialize components
-      console.log(`[1/4] Initializing crawler (${config.maxConcurrency} parallel workers)`);
-      const crawler = new ParallelCrawler(config);
-      const converter = new DocumentConverter();
+  if (options.include) {
+    config.includePatterns = splitPatterns(options.include);
+  }
 
-      // Start crawling
-      const startTime = performance.now();
-      const pages = await crawler.crawl(options.url);
-      const crawlDuration = ((performance.now() - startTime) / 1000).toFixed(1);
+  if (options.exclude) {
+    config.excludePatterns = splitPatterns(options.exclude);
+  }
 
-      console.log(`[2/4] Found ${pages.length} pages in ${crawlDuration}s`);
+  if (options.maxDepth !== undefined) {
+    config.maxDepth = parseInt(options.maxDepth);
+  }
 
-      // Check if we have any pages
-      if (pages.length === 0) {
-        console.error('No pages were successfully crawled. Please try with a different URL or increase the timeout settings.');
-        process.exit(1);
-      }
+  if (options.allowedDomains) {
+    config.allowedDomains = options.allowedDomains.split(',').map((domain: string) => domain.trim().toLowerCase());
+  }
+
+  if (options.maxTotalUrls !== undefined) {
+    config.maxTotalUrls = parseInt(options.maxTotalUrls);
+  }
+
+  if (options.hostConcurrency !== undefined) {
+    config.maxConcurrencyPerHost = parseInt(options.hostConcurrency);
+  }
+
+  if (options.stateDir) {
+    config.stateDir = path.resolve(options.stateDir);
+  }
+
+  if (options.cacheDir) {
+    config.cacheDir = path.resolve(options.cacheDir);
+  }
+
+  if (options.localDir) {
+    config.localDir = path.resolve(options.localDir);
+  }
 
-      // Process HTML to Markdown
-      const markdownStartTime = performance.now();
-      const markdownPath = await converter.processPages(pages, config.outputDir, config.splitPages);
-      const markdownDuration = ((performance.now() - markdownStartTime) / 1000).toFixed(1);
+  if (options.warc) {
+    config.warcInput = path.resolve(options.warc);
+  }
 
-      // Get markdown file size
-      const stats = await fs.stat(markdownPath);
-      const markdownSizeMB = (stats.size / (1024 * 1024)).toFixed(1);
+  if (options.saveWarc) {
+    config.warcOutput = path.resolve(options.saveWarc);
+  }
 
-      console.log(`[3/4] Converted ${pages.length} pages to Markdown (${markdownSizeMB}MB)`);
+  if (options.userAgent) {
+    config.userAgent = options.userAgent;
+  }
 
-      // Generate document
-      const outputFilePath = await converter.generatePDF(markdownPath, config.outputDir);
+  if (options.header) {
+    config.headers = options.header;
+  }
 
-      console.log(`[4/4] Document generated: ${path.basename(outputFilePath)}`);
-      console.timeEnd('Total execution time');
+  if (options.auth) {
+    config.auth = options.auth;
+  }
 
-      console.log(`\nOutput file: ${outputFilePath}`);
-      console.log('\nNote: PDF generation is currently provided as Markdown format.');
-      console.log('You can convert the Markdown file to PDF using a third-party tool if needed.');
-    } catch (error) {
+  if (options.authDomains) {
+    config.authDomains = options.authDomains.split(',').map((domain: string) => domain.trim().toLowerCase());
+  }
+
+  if (options.cookies) {
+    config.cookieFile = path.resolve(options.cookies);
+  }
+
+  if (options.proxy) {
+    config.proxy = options.proxy;
+  }
+
+  if (options.proxyBypass) {
+    config.noProxy = options.proxyBypass.split(',').map((host: string) => host.trim().toLowerCase());
+  }
+
+  if (options.assetTypes) {
+    config.assetTypes = options.assetTypes.split(',').map((type: string) => type.trim().toLowerCase());
+  }
+
+  if (options.indexFiles !== undefined) {
+    config.indexFiles = options.indexFiles.split(',').map((file: string) => file.trim()).filter((file: string) => file);
+  }
+
+  if (options.keepQuery) {
+    config.keepQueryParams = options.keepQuery.split(',').map((param: string) => param.trim());
+  }
+
+  if (options.plugins) {
+    config.plugins = options.plugins.split(',').map((plugin: string) => plugin.trim());
+  }
+
+  // Parse selectors to remove if provided
+  if (options.removeSelectors) {
+    config.removeSelectors = splitSelectorList(options.removeSelectors);
+  }
+
+  // Parse sitemap lastmod cutoff if provided
+  if (options.sitemapSince) {
+    config.sitemapSince = new Date(options.sitemapSince);
+  }
+
+  return config;
+}
+
+/**
+ * Turn a local file or directory given as --url into a file:// URL; anything else is used as given
+ */
+async function seedUrl(url: string): Promise<string> {
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+    return url;
+  }
+  const stats = await fs.stat(url).catch(() => null);
+  if (!stats) {
+    return url;
+  }
+  const fileUrl = pathToFileURL(path.resolve(url)).toString();
+  return stats.isDirectory() && !fileUrl.endsWith('/') ? `${fileUrl}/` : fileUrl;
+}
+
+/**
+ * Run the exports described by the command line, or by a config file and profile
+ */
+async function main(options: CliOptions, profile?: string, fromRunCommand = false): Promise<void> {
+  try {
+    console.time('Total execution time');
+    const config = configFromOptions(options);
+
+    if (options.report && options.report !== 'markdown' && options.report !== 'html') {
+      throw new ConfigError('Report format must be "markdown" or "html"');
+    }
+
+    let jobs: ExportJob[];
+    const configFile = options.config
+      ? path.resolve(options.config)
+      : (fromRunCommand ? await findConfigFile(process.cwd()) : null);
+
+    if (configFile) {
+      if (options.url) {
+        throw new ConfigError('--url cannot be used with a config file; list seed URLs under "urls" in its sources');
+      }
+
+      // Only options given on the command line override the config file
+      const overrides: ConfigValues = {};
+      for (const [option, key] of Object.entries(OPTION_KEYS)) {
+        if (program.getOptionValueSource(option) === 'cli') {
+          Object.assign(overrides, { [key]: key === 'report' ? options.report : config[key as keyof CrawlerConfig] });
+        }
+      }
+      jobs = resolveJobs(await loadConfigFile(configFile), profile, config, overrides);
+      console.log(`Using config file ${path.relative(process.cwd(), configFile)}: ${jobs.map(job => job.name).join(', ')}`);
+    } else {
+      if (fromRunCommand) {
+        throw new ConfigError(`No config file found; pass --config or create one of ${CONFIG_FILES.join(', ')}`);
+      }
+      if (!options.url || !options.output) {
+        throw new ConfigError('--url and --output are required without a config file');
+      }
+      const url = await seedUrl(options.url);
+      jobs = [{ name: options.url, config, sources: [{ name: 'default', urls: [url], config }], report: options.report }];
+    }
+
+    const logger = new ConsoleLogger();
+    const outputFiles: string[] = [];
+    for (const job of jobs) {
+      if (jobs.length > 1) {
+        logger.info(`\n=== Exporting "${job.name}" to ${job.config.outputDir} ===`);
+      }
+      const result = await exportDocs({ ...job.config, sources: job.sources, report: job.report, logger });
+      outputFiles.push(result.outputPath);
+    }
+
+    console.timeEnd('Total execution time');
+    for (const outputFile of outputFiles) {
+      console.log(`\nOutput file: ${outputFile}`);
+    }
+  } catch (error) {
+    if (error instanceof ConfigError || error instanceof ExportError) {
+      console.error(`Error: ${error.message}`);
+    } else {
       console.error('Error:', error);
     }
-    process.exit(0);
-  });
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+/**
+ * Compare two exports and print or save the changes
+ */
+async function diff(oldExport: string, newExport: string, options: DiffOptions): Promise<void> {
+  try {
+    const changes = await new ExportDiffer().compare(oldExport, newExport);
+    const output = options.json ? JSON.stringify(changes, null, 2) + '\n' : ExportDiffer.toMarkdown(changes);
+    if (options.outFile) {
+      await fs.writeFile(path.resolve(options.outFile), output, 'utf-8');
+      const { added, removed, modified } = changes.summary;
+      console.log(`${added} added, ${removed} removed, ${modified} modified pages; wrote ${options.outFile}`);
+    } else {
+      process.stdout.write(output);
+    }
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('Error:', error);
+    }
+    process.exit(1);
+  }
+  process.exit(0);
+}
 
 // Parse command line arguments
 program.parse(process.argv);
\ No newline at end of file
@@ -1,16 +1,71 @@
+import type { DocPlugin } from './plugins.js';
+import type { Fetcher } from './fetcher.js';
+
 /**
  * Configuration for the crawler
  */
 export interface CrawlerConfig {
   maxConcurrency: number;
   sameDomain: boolean;
+  allowedDomains?: string[]; // Other hosts crawled along with the seed's host when sameDomain is set; "*.example.com" matches subdomains
   outputDir: string;
-  maxUrlsPerDomain?: number; // Maximum URLs to crawl per domain
+  maxUrlsPerDomain?: number; // Maximum URLs to crawl per host
+  maxTotalUrls?: number;     // Maximum URLs to crawl across all hosts (default: unlimited)
+  maxConcurrencyPerHost?: number; // Maximum concurrent requests to one host (default: maxConcurrency)
   requestTimeout?: number;   // Request timeout in milliseconds
   maxRunTime?: number;       // Maximum crawler run time in milliseconds
   splitPages?: 'none' | 'subdirectories' | 'flat';  // How to split pages into markdown files
   allowedPrefixes?: string[]; // Only crawl URLs with these prefixes (if provided)
   ignorePrefixes?: string[]; // Ignore URLs with these prefixes (if provided)
+  includePatterns?: string[]; // Only crawl URLs matching one of these globs or "re:" regexes (if provided)
+  excludePatterns?: string[]; // Never crawl URLs matching these globs or "re:" regexes
+  maxDepth?: number;         // Maximum link hops from the seed URL (default: unlimited)
+  frontierOrder?: 'fifo' | 'shallow' | 'nav'; // Order in which queued URLs are fetched (default: fifo)
+  respectRobots?: boolean;   // Honor robots.txt rules and Crawl-delay (default: true)
+  crawlDelay?: number;       // Minimum interval between requests to the same host in milliseconds
+  useSitemap?: boolean;      // Seed the crawl from sitemap.xml and sitemaps listed in robots.txt
+  sitemapSince?: Date;       // Skip sitemap entries whose lastmod is older than this date
+  contentSelector?: string;  // CSS selector for the main content area (overrides presets and heuristics)
+  removeSelectors?: string[]; // CSS selectors removed from the content before conversion
+  contentPreset?: string;    // Doc generator preset: 'auto' (default), 'none', or a preset name
+  stateDir?: string;         // Directory for the on-disk crawl checkpoint and fetched pages
+  resume?: boolean;          // Continue from the checkpoint in stateDir instead of starting over
+  cacheDir?: string;         // Directory for the HTTP cache used for conditional requests
+  localDir?: string;         // Read pages from this directory (e.g. a built static site) instead of the network
+  warcInput?: string;        // Replay the responses stored in this WARC file instead of the network
+  warcOutput?: string;       // Save every HTTP response of the crawl to this WARC file
+  fetcher?: Fetcher;         // Custom source of responses (default: chosen from the three options above)
+  userAgent?: string;        // User-Agent sent with every request (default: Mozilla/5.0 DocCrawler/1.0)
+  headers?: string[];        // Extra request headers, "Name: value" or "host Name: value" for one host
+  auth?: string;             // "basic" or "bearer" auth from environment variables, e.g. "bearer:DOCS_TOKEN"
+  authDomains?: string[];    // Hosts that receive credentials, cookies and unscoped headers (default: seed hosts and allowedDomains)
+  cookieFile?: string;       // Netscape cookies.txt or JSON cookie file; Set-Cookie responses are kept during the crawl
+  proxy?: string;            // HTTP(S) proxy URL (default: HTTPS_PROXY / HTTP_PROXY)
+  noProxy?: string[];        // Hosts reached without the proxy (default: NO_PROXY)
+  maxRetries?: number;       // Retries for timeouts, 5xx and 429 responses (default: 2)
+  retryDelay?: number;       // Base delay for exponential backoff in milliseconds (default: 500)
+  uncrawledLinkMarker?: string; // Text appended to links pointing at pages that were not crawled
+  downloadAssets?: boolean;  // Download images into assets/ and point Markdown at the local copies
+  maxAssetSize?: number;     // Maximum size of a downloaded asset in bytes (default: 5MB)
+  assetTypes?: string[];     // Allowed asset MIME types (default: common image types)
+  outputFormat?: 'markdown' | 'pdf' | 'epub' | 'jsonl' | 'llms'; // Also write document.pdf, .epub, .jsonl or llms.txt
+  pdfPageSize?: string;      // PDF paper size, e.g. 'A4' or 'LETTER' (default: A4)
+  pdfMargin?: number;        // PDF page margin in points (default: 56)
+  pdfCover?: boolean;        // Start the PDF with a cover page (default: true)
+  pdfFont?: string;          // TrueType font file for PDF body text (default: Helvetica)
+  llmsLinks?: 'live' | 'files'; // Point llms.txt links at the live pages or the exported files (default: live)
+  chunkSize?: number;        // Maximum JSONL chunk size (default: 2000)
+  chunkUnit?: 'chars' | 'tokens'; // Unit of chunkSize and chunkOverlap (default: chars)
+  chunkOverlap?: number;     // Text repeated between consecutive chunks of a section (default: 0)
+  navSelector?: string;      // CSS selector for the site navigation used to order pages (default: common sidebars)
+  plugins?: (string | DocPlugin)[]; // Built-in plugin names, plugin module paths or plugin objects
+  ignoreTrailingSlash?: boolean; // Treat /docs/intro and /docs/intro/ as the same page (default: true)
+  indexFiles?: string[];     // File names that stand for their directory (default: index.html, index.htm)
+  ignoreCase?: boolean;      // Treat URL paths that differ only in case as the same page (default: false)
+  keepQueryParams?: string[]; // Query parameters that select a different page, or '*' for all (default: none)
+  useCanonical?: boolean;    // Export pages under their <link rel="canonical"> URL, merging duplicates (default: true)
+  dedupeContent?: boolean;   // Export only one copy of pages with identical main content (default: true)
+  nearDuplicates?: boolean;  // Also merge pages whose main content is nearly identical (default: false)
 }
 
 /**
@@ -18,7 +73,112 @@ export interface CrawlerConfig {
  */
 export interface PageData {
   url: string;
-  content: string;
-  links: string[];
+  content: string; // HTML; emptied once the page was handed to the onPage callback of a crawl
+  links: string[]; // Emptied along with content
   title?: string;
-}
\ No newline at end of file
+  nav?: NavItem[]; // Site navigation found on the page, in document order
+  depth?: number;  // Link depth from the seed URL
+  order?: number;  // Position in the order URLs were discovered
+  aliases?: string[]; // Other URLs merged into this page: redirects, canonical duplicates and near-duplicates
+}
+
+/**
+ * Link in a site's navigation
+ */
+export interface NavItem {
+  url: string;
+  title: string;
+  level: number; // Nesting depth in the navigation tree, starting at 0
+}
+
+/**
+ * A URL that could not be exported
+ */
+export interface FetchFailure {
+  url: string;
+  status: number; // HTTP status code, or 0 for network errors and timeouts
+  error: string;
+}
+
+
+/**
+ * Why a URL was not crawled
+ */
+export type SkipReason =
+  | 'invalid-url'
+  | 'unsupported-protocol'
+  | 'external-domain'
+  | 'file-type'
+  | 'complex-query'
+  | 'not-allowed-prefix'
+  | 'ignored-prefix'
+  | 'excluded-pattern'
+  | 'not-included'
+  | 'max-depth'
+  | 'plugin'
+  | 'duplicate'
+  | 'robots'
+  | 'max-urls'
+  | 'max-runtime'
+  | 'aborted'
+  | 'not-crawled';
+
+/**
+ * How a duplicate was found: its canonical or redirect URL was already exported, or its main content
+ * is identical or nearly identical to an exported page
+ */
+export type DuplicateMatch = 'url' | 'identical' | 'similar';
+
+/**
+ * Report entry for a single URL the crawler touched
+ */
+export interface CrawlRecord {
+  url: string;
+  outcome: 'queued' | 'exported' | 'failed' | 'skipped';
+  depth: number;          // Link hops from the seed URL
+  rule?: string;          // Include pattern that admitted the URL, or exclude pattern that rejected it
+  referrers: string[];    // First pages that linked to this URL, up to 10
+  status?: number;        // HTTP status code of the final response
+  finalUrl?: string;      // URL after redirects, if different
+  title?: string;
+  skipReason?: SkipReason;
+  duplicateOf?: string;   // Page this URL was merged into, for 'duplicate' skips
+  duplicateMatch?: DuplicateMatch;
+  error?: string;
+  fetchedAt?: string;
+  durationMs?: number;
+}
+
+/**
+ * Outcome counts for the URLs of one host
+ */
+export interface HostSummary {
+  host: string;
+  exported: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Machine-readable summary of a crawl
+ */
+export interface CrawlReport {
+  seedUrl: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  stopReason?: SkipReason;
+  summary: {
+    total: number;
+    exported: number;
+    failed: number;
+    skipped: number;
+    redirected: number;
+    merged: number;        // URLs merged into another page as duplicates
+  };
+  hosts: HostSummary[];    // Per-host counts, most exported pages first
+  duplicates: { url: string; duplicateOf: string; match?: DuplicateMatch }[];
+  brokenLinks: { url: string; status: number; error?: string; referrers: string[] }[];
+  redirects: { url: string; finalUrl: string; status?: number }[];
+  urls: CrawlRecord[];
+}
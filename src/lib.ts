@@ -0,0 +1,30 @@
+/**
+ * Library entry point: export documentation sites from Node or Bun code.
+ * The doc-export CLI (src/index.ts) is a thin wrapper around exportDocs.
+ */
+export { exportDocs, runExport, DEFAULT_CONFIG, ExportError } from './pipeline.js';
+export type { ExportOptions, ExportResult, ExportStats } from './pipeline.js';
+export { ExportEvents, createContext } from './events.js';
+export type { ExportContext, ExportEventMap, ExportEventName } from './events.js';
+export { ConsoleLogger, silentLogger } from './logger.js';
+export type { Logger } from './logger.js';
+export { ConfigError, findConfigFile, loadConfigFile, resolveJobs, validateConfig, CONFIG_FILES } from './config.js';
+export type { ConfigValues, ExportConfigFile, ExportJob, ExportSource, ProfileConfig, SourceConfig } from './config.js';
+export { BUILTIN_PLUGINS, loadPlugins, PluginHost } from './plugins.js';
+export type { DocPlugin } from './plugins.js';
+export { UrlNormalizer, DEFAULT_INDEX_FILES, matchesDomain } from './urls.js';
+export type { UrlNormalizationOptions } from './urls.js';
+export { UrlPatterns, splitPatterns } from './patterns.js';
+export type { PatternMatch } from './patterns.js';
+export { createFetcher, FileFetcher, HttpFetcher, WarcFetcher } from './fetcher.js';
+export type { Fetcher, FetcherOptions } from './fetcher.js';
+export { CookieJar, RequestSession, parseHeader, resolveAuthorization } from './session.js';
+export type { Cookie, HeaderRule, SessionOptions } from './session.js';
+export { WarcArchive, WarcWriter } from './warc.js';
+export type { WarcResponse } from './warc.js';
+export { ExportDiffer } from './diff.js';
+export type { DiffHunk, ExportDiff, PageDiff, SectionDiff } from './diff.js';
+export { ParallelCrawler } from './crawler.js';
+export type { PageSink } from './crawler.js';
+export { DocumentConverter } from './converter.js';
+export type { CrawlerConfig, CrawlRecord, CrawlReport, HostSummary, NavItem, PageData, SkipReason } from './interfaces.js';
@@ -0,0 +1,59 @@
+/**
+ * Destination for the messages printed while exporting
+ */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string, error?: unknown): void;
+  progress?(message: string): void; // Status line replaced by the next progress message
+}
+
+/**
+ * Logs to the terminal, keeping the progress line on a single row
+ */
+export class ConsoleLogger implements Logger {
+  private progressShown = false;
+
+  info(message: string): void {
+    this.endProgress();
+    console.log(message);
+  }
+
+  warn(message: string): void {
+    this.endProgress();
+    console.log(message);
+  }
+
+  error(message: string, error?: unknown): void {
+    this.endProgress();
+    if (error === undefined) {
+      console.error(message);
+    } else {
+      console.error(message, error);
+    }
+  }
+
+  progress(message: string): void {
+    process.stdout.write(`\r${message}`);
+    this.progressShown = true;
+  }
+
+  /**
+   * Move past the progress line so the next message starts on its own row
+   */
+  private endProgress(): void {
+    if (this.progressShown) {
+      process.stdout.write('\n');
+      this.progressShown = false;
+    }
+  }
+}
+
+/**
+ * Drops every message; the default for the library API
+ */
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
@@ -0,0 +1,231 @@
+import type { CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { NavItem, PageData } from './interfaces.js';
+
+/**
+ * Sidebar containers of common doc generators, tried in order before generic fallbacks
+ */
+export const DEFAULT_NAV_SELECTORS = [
+  '.theme-doc-sidebar-menu',        // Docusaurus
+  '.md-nav--primary',               // MkDocs Material
+  '.wy-menu-vertical',              // Sphinx (Read the Docs theme)
+  '.sphinxsidebarwrapper',          // Sphinx (classic themes)
+  '.VPSidebar nav',                 // VitePress
+  '[data-testid="table-of-contents"]', // GitBook
+  'aside nav',
+  'nav.sidebar, .sidebar nav, #sidebar nav',
+  '[role="navigation"]',
+  'nav'
+];
+
+/**
+ * A page in reading order, with its depth in the table of contents
+ */
+export interface OrderedPage {
+  page: PageData;
+  level: number;
+}
+
+/**
+ * Read the site navigation of a page as a flat list of links with their nesting level.
+ * Returns an empty list when no navigation with at least two links is found.
+ */
+export function extractNavigation($: CheerioAPI, pageUrl: string, selector?: string): NavItem[] {
+  const selectors = selector ? [selector] : DEFAULT_NAV_SELECTORS;
+
+  for (const candidate of selectors) {
+    let containers: Element[];
+    try {
+      containers = $(candidate).toArray() as Element[];
+    } catch (e) {
+      continue;
+    }
+
+    // Pages often have several nav elements; the sidebar is the one with the most links
+    let best: NavItem[] = [];
+    for (const container of containers) {
+      const items: NavItem[] = [];
+      const seen = new Set<string>();
+
+      $(container).find('a[href]').each((_, link) => {
+        let url: URL;
+        try {
+          url = new URL($(link).attr('href')!, pageUrl);
+        } catch (e) {
+          return;
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          return;
+        }
+
+        // In-page anchors and duplicate entries add nothing to the page order
+        url.hash = '';
+        const target = url.toString();
+        if (seen.has(target)) {
+          return;
+        }
+        seen.add(target);
+
+        const level = $(link).parentsUntil(container).filter('ul, ol').length;
+        items.push({ url: target, title: $(link).text().replace(/\s+/g, ' ').trim(), level });
+      });
+
+      if (items.length > best.length) {
+        best = items;
+      }
+    }
+
+    if (best.length >= 2) {
+      // Make levels start at zero inside the container
+      const minLevel = Math.min(...best.map(item => item.level));
+      return best.map(item => ({ ...item, level: item.level - minLevel }));
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Order pages the way the site presents them: pages in the navigation follow its order and nesting,
+ * other pages are nested under their closest parent by URL path, siblings ordered by depth and discovery order.
+ * Navigation links are matched to pages, and their aliases, by key (default: the URL without a trailing slash).
+ */
+export function orderPages(pages: PageData[], key: (url: string) => string = trimSlash): OrderedPage[] {
+  const byDiscovery = [...pages].sort(compareDiscovery);
+  const nodes = new Map<string, TreeNode>();
+  const lookup = new Map<string, TreeNode>();
+  for (const page of byDiscovery) {
+    const url = key(page.url);
+    if (!nodes.has(url)) {
+      const node = { page, children: [] };
+      nodes.set(url, node);
+      for (const alias of [url, ...(page.aliases ?? []).map(key)]) {
+        if (!lookup.has(alias)) {
+          lookup.set(alias, node);
+        }
+      }
+    }
+  }
+
+  // Build the tree from the navigation; a child never skips a level
+  const roots: TreeNode[] = [];
+  const placed = new Set<TreeNode>();
+  const stack: TreeNode[] = [];
+  for (const item of mergeNavigation(byDiscovery, key)) {
+    const node = lookup.get(key(item.url));
+    if (!node || placed.has(node)) {
+      continue;
+    }
+    stack.length = Math.min(item.level, stack.length);
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+    placed.add(node);
+  }
+
+  // Attach the other pages under their closest ancestor by URL path
+  const seeds: TreeNode[] = [];
+  for (const node of nodes.values()) {
+    if (placed.has(node)) {
+      continue;
+    }
+    const parent = findPathParent(node.page.url, lookup, key);
+    if (parent) {
+      parent.children.push(node);
+    } else if (node.page.depth === 0) {
+      // Seed pages open the export even when the navigation does not list them
+      seeds.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  roots.unshift(...seeds);
+
+  // Pages crawled from several seed URLs stay grouped by seed, in the order the seeds were crawled
+  const seedOrders = byDiscovery.filter(page => page.depth === 0 && page.order !== undefined).map(page => page.order!);
+  const seedGroup = (node: TreeNode) => seedOrders.filter(order => order <= (node.page.order ?? Infinity)).length;
+  roots.sort((a, b) => seedGroup(a) - seedGroup(b));
+
+  const ordered: OrderedPage[] = [];
+  const visit = (node: TreeNode, level: number) => {
+    ordered.push({ page: node.page, level });
+    for (const child of node.children) {
+      visit(child, level + 1);
+    }
+  };
+  for (const root of roots) {
+    visit(root, 0);
+  }
+
+  return ordered;
+}
+
+/**
+ * Merge the navigation seen on every page into one list. Collapsed sidebars only show part of the
+ * tree on each page, so entries missing from the list so far are inserted after their predecessor.
+ */
+function mergeNavigation(pages: PageData[], key: (url: string) => string): NavItem[] {
+  const merged: NavItem[] = [];
+  const known = new Set<string>();
+
+  for (const page of pages) {
+    let cursor = -1;
+    for (const item of page.nav ?? []) {
+      const url = key(item.url);
+      if (known.has(url)) {
+        cursor = merged.findIndex(entry => key(entry.url) === url);
+        continue;
+      }
+      const position = cursor >= 0 ? cursor + 1 : merged.length;
+      merged.splice(position, 0, item);
+      known.add(url);
+      cursor = position;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Page in the table of contents tree
+ */
+interface TreeNode {
+  page: PageData;
+  children: TreeNode[];
+}
+
+/**
+ * Closest page whose URL path contains the given URL, e.g. /docs/api for /docs/api/extra
+ */
+function findPathParent(url: string, nodes: Map<string, TreeNode>, key: (url: string) => string): TreeNode | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    return undefined;
+  }
+
+  const segments = parsed.pathname.split('/').filter(segment => segment);
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const parent = nodes.get(key(`${parsed.origin}/${segments.slice(0, i).join('/')}`));
+    if (parent && parent.page !== nodes.get(key(url))?.page) {
+      return parent;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Shallower pages first, then the order in which links to them were found
+ */
+function compareDiscovery(a: PageData, b: PageData): number {
+  return (a.depth ?? Infinity) - (b.depth ?? Infinity) ||
+    (a.order ?? Infinity) - (b.order ?? Infinity) ||
+    a.url.localeCompare(b.url);
+}
+
+/**
+ * URL without a trailing slash, so /docs and /docs/ match
+ */
+function trimSlash(url: string): string {
+  return url.endsWith('/') ? url.slice(0, -1) : url;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import { splitPatterns, UrlPatterns } from './patterns.js';
+
+describe('splitPatterns', () => {
+  test('splits on commas outside {a,b} groups', () => {
+    expect(splitPatterns('/docs/**, /api/{v1,v2}/*,re:\\?page=')).toEqual(['/docs/**', '/api/{v1,v2}/*', 're:\\?page=']);
+  });
+
+  test('drops empty entries', () => {
+    expect(splitPatterns(' , /a,,')).toEqual(['/a']);
+  });
+});
+
+describe('UrlPatterns', () => {
+  test('allows every URL without patterns', () => {
+    expect(new UrlPatterns().match('https://example.com/anything')).toEqual({ allowed: true });
+  });
+
+  test('matches * within a path segment and ** across segments', () => {
+    const patterns = new UrlPatterns(['/docs/*/intro', '/guides/**']);
+    expect(patterns.match('https://example.com/docs/v2/intro').allowed).toBe(true);
+    expect(patterns.match('https://example.com/docs/v2/beta/intro').allowed).toBe(false);
+    expect(patterns.match('https://example.com/guides/a/b/c').rule).toBe('/guides/**');
+  });
+
+  test('lets a trailing /** match the directory itself', () => {
+    const patterns = new UrlPatterns(['/docs/**']);
+    expect(patterns.match('https://example.com/docs').allowed).toBe(true);
+    expect(patterns.match('https://example.com/docs/').allowed).toBe(true);
+    expect(patterns.match('https://example.com/docsite').allowed).toBe(false);
+  });
+
+  test('supports ? and {a,b} alternatives', () => {
+    const patterns = new UrlPatterns(['/v?/{install,setup}']);
+    expect(patterns.match('https://example.com/v2/install').allowed).toBe(true);
+    expect(patterns.match('https://example.com/v2/setup').allowed).toBe(true);
+    expect(patterns.match('https://example.com/v10/setup').allowed).toBe(false);
+  });
+
+  test('matches globs with a scheme and re: patterns against the full URL', () => {
+    const patterns = new UrlPatterns(['https://docs.example.com/**', 're:[?&]lang=en']);
+    expect(patterns.match('https://docs.example.com/guide').allowed).toBe(true);
+    expect(patterns.match('https://blog.example.com/post?lang=en').rule).toBe('re:[?&]lang=en');
+    expect(patterns.match('https://blog.example.com/post')).toEqual({ allowed: false, reason: 'not-included' });
+  });
+
+  test('lets excludes win over includes', () => {
+    const patterns = new UrlPatterns(['/docs/**'], ['/docs/**/changelog']);
+    expect(patterns.match('https://example.com/docs/v1/changelog')).toEqual({
+      allowed: false,
+      rule: '/docs/**/changelog',
+      reason: 'excluded-pattern'
+    });
+    expect(patterns.match('https://example.com/docs/v1/intro').allowed).toBe(true);
+  });
+
+  test('escapes regular expression characters in globs', () => {
+    const patterns = new UrlPatterns(['/api(v2)/index.html']);
+    expect(patterns.match('https://example.com/api(v2)/index.html').allowed).toBe(true);
+    expect(patterns.match('https://example.com/apiv2/indexahtml').allowed).toBe(false);
+  });
+
+  test('throws on an invalid regular expression', () => {
+    expect(() => new UrlPatterns(['re:('])).toThrow();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * A compiled include or exclude pattern
+ */
+interface CompiledPattern {
+  source: string;   // The pattern as written, reported as the matched rule
+  regex: RegExp;
+  fullUrl: boolean; // Matched against the full URL instead of the path
+}
+
+/**
+ * Outcome of matching a URL against the include and exclude patterns
+ */
+export interface PatternMatch {
+  allowed: boolean;
+  rule?: string;                              // Include pattern that admitted the URL, or exclude pattern that rejected it
+  reason?: 'excluded-pattern' | 'not-included';
+}
+
+/**
+ * Compile a URL pattern. Patterns starting with "re:" are regular expressions tested against the full URL.
+ * Other patterns are globs: "*" matches within a path segment, "**" across segments, "?" one character and
+ * "{a,b}" alternatives. Globs containing "://" match the full URL, other globs the path.
+ * Throws on an invalid regular expression.
+ */
+function compilePattern(pattern: string): CompiledPattern {
+  if (pattern.startsWith('re:')) {
+    return { source: pattern, regex: new RegExp(pattern.slice(3)), fullUrl: true };
+  }
+  return { source: pattern, regex: globToRegExp(pattern), fullUrl: pattern.includes('://') };
+}
+
+/**
+ * Translate a glob into an anchored regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  let regex = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // A trailing "/**" also matches the directory itself
+      if (regex.endsWith('/') && i + 2 === glob.length) {
+        regex = regex.slice(0, -1) + '(?:/.*)?';
+      } else {
+        regex += '.*';
+      }
+      i++;
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      regex += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      regex += ')';
+    } else if (char === ',' && inGroup) {
+      regex += '|';
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Split a comma-separated list of patterns, keeping commas inside "{a,b}" groups
+ */
+export function splitPatterns(list: string): string[] {
+  const patterns: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of list) {
+    if (char === ',' && depth === 0) {
+      patterns.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}' && depth > 0) depth--;
+    current += char;
+  }
+  patterns.push(current);
+  return patterns.map(pattern => pattern.trim()).filter(pattern => pattern);
+}
+
+/**
+ * Include and exclude URL patterns. Excludes win; without includes every URL not excluded is allowed.
+ */
+export class UrlPatterns {
+  private include: CompiledPattern[];
+  private exclude: CompiledPattern[];
+
+  constructor(include: string[] = [], exclude: string[] = []) {
+    this.include = include.map(compilePattern);
+    this.exclude = exclude.map(compilePattern);
+  }
+
+  /**
+   * Match a URL against the patterns
+   */
+  match(link: string): PatternMatch {
+    let url: URL;
+    try {
+      url = new URL(link);
+    } catch (e) {
+      return { allowed: false, reason: 'not-included' };
+    }
+
+    const excluded = this.exclude.find(pattern => this.test(pattern, url));
+    if (excluded) {
+      return { allowed: false, rule: excluded.source, reason: 'excluded-pattern' };
+    }
+    if (this.include.length === 0) {
+      return { allowed: true };
+    }
+    const included = this.include.find(pattern => this.test(pattern, url));
+    return included ? { allowed: true, rule: included.source } : { allowed: false, reason: 'not-included' };
+  }
+
+  private test(pattern: CompiledPattern, url: URL): boolean {
+    return pattern.regex.test(pattern.fullUrl ? url.toString() : url.pathname);
+  }
+}
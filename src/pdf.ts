@@ -0,0 +1,769 @@
+import PDFDocument from 'pdfkit';
+import { marked } from 'marked';
+import type { Token, Tokens } from 'marked';
+import * as fs from 'fs/promises';
+import { createWriteStream, existsSync } from 'fs';
+import * as path from 'path';
+
+/**
+ * Layout options for PDF output
+ */
+export interface PdfOptions {
+  pageSize?: string; // Paper size name, e.g. 'A4' or 'LETTER'
+  margin?: number;   // Page margin in points
+  cover?: boolean;   // Start with a cover page showing the source URL and export date
+  sourceUrl?: string;
+  font?: string;     // TrueType font file for body text, for scripts the standard fonts cannot show
+}
+
+/**
+ * One exported page, rendered as a chapter of the PDF
+ */
+interface PdfSection {
+  title: string;
+  level: number;       // Depth in the table of contents
+  destination: string; // Named destination used by the outline, the TOC and links
+  markdown: string;
+  baseDir: string;     // Directory that relative links and images resolve against
+}
+
+/**
+ * A piece of inline text with its style
+ */
+interface TextRun {
+  text: string;
+  font: string;
+  size: number;
+  color: string;
+  link?: string;
+  goTo?: string;
+}
+
+/**
+ * Inline content: either a styled text run or an image that breaks the line
+ */
+type InlinePart = TextRun | { image: Tokens.Image };
+
+// Paper sizes known to PDFKit
+export const PAGE_SIZE_PATTERN = /^(4A0|2A0|[ABC]([0-9]|10)|S?RA[0-4]|EXECUTIVE|FOLIO|LEGAL|LETTER|TABLOID)$/;
+
+const BODY_SIZE = 10.5;
+const CODE_SIZE = 8.5;
+const HEADING_SIZES = [0, 20, 16, 13.5, 12, 11, 10.5];
+const TEXT_COLOR = '#1f2328';
+const MUTED_COLOR = '#59636e';
+const LINK_COLOR = '#0969da';
+const CODE_BACKGROUND = '#f6f8fa';
+const BORDER_COLOR = '#d1d9e0';
+
+const ALERT_COLORS: Record<string, string> = {
+  NOTE: '#0969da',
+  TIP: '#1a7f37',
+  IMPORTANT: '#8250df',
+  WARNING: '#9a6700',
+  CAUTION: '#d1242f'
+};
+
+const SYNTAX_COLORS = {
+  comment: '#6e7781',
+  string: '#0a3069',
+  number: '#0550ae',
+  keyword: '#cf222e',
+  plain: TEXT_COLOR
+};
+
+const KEYWORDS = new Set([
+  'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def',
+  'default', 'defer', 'del', 'do', 'elif', 'else', 'enum', 'except', 'export', 'extends', 'false', 'final',
+  'finally', 'fn', 'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in',
+  'interface', 'is', 'lambda', 'let', 'match', 'mod', 'mut', 'new', 'nil', 'None', 'not', 'null', 'or',
+  'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise', 'return', 'self', 'static', 'struct',
+  'super', 'switch', 'this', 'throw', 'throws', 'trait', 'True', 'False', 'true', 'try', 'type', 'typeof',
+  'undefined', 'use', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+// Languages where # starts a comment
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'py', 'bash', 'sh', 'shell', 'zsh', 'yaml', 'yml', 'toml', 'ruby', 'rb', 'r', 'perl', 'dockerfile', 'makefile', 'ini', 'conf']);
+
+// Characters the standard PDF fonts (WinAnsi encoding) can show besides Latin-1
+const WIN_ANSI_EXTRA = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '↗': '^', '✓': 'v', '✔': 'v', '✗': 'x', '✘': 'x', '≤': '<=', '≥': '>=', '≠': '!=' };
+
+/**
+ * Child tokens of a token, if it has any
+ */
+function childTokens(token: Token): Token[] {
+  return 'tokens' in token && token.tokens ? token.tokens : [];
+}
+
+/**
+ * Renders an exported Markdown document (document.md, or index.md with its page files) to a PDF
+ * with a bookmark outline, a linked table of contents and page numbers
+ */
+export class PdfRenderer {
+  private options: PdfOptions;
+  private doc!: PDFKit.PDFDocument;
+  private fonts = { regular: 'Helvetica', bold: 'Helvetica-Bold', italic: 'Helvetica-Oblique', boldItalic: 'Helvetica-BoldOblique', mono: 'Courier' };
+  private destinationsByFile = new Map<string, string>(); // Absolute Markdown file path -> destination
+  private destinations = new Set<string>();
+
+  constructor(options: PdfOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Render the Markdown export at markdownPath to pdfPath
+   */
+  async render(markdownPath: string, pdfPath: string): Promise<void> {
+    const sections = await this.loadSections(markdownPath);
+    const margin = this.options.margin ?? 56;
+
+    this.doc = new PDFDocument({
+      size: this.options.pageSize ?? 'A4',
+      margins: { top: margin, bottom: margin, left: margin, right: margin },
+      bufferPages: true,
+      autoFirstPage: false,
+      info: { Title: 'Exported Documentation', Subject: this.options.sourceUrl }
+    });
+
+    if (this.options.font) {
+      this.doc.registerFont('Body', this.options.font);
+      this.fonts = { regular: 'Body', bold: 'Body', italic: 'Body', boldItalic: 'Body', mono: this.fonts.mono };
+    }
+
+    const output = createWriteStream(pdfPath);
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('finish', resolve);
+      output.on('error', reject);
+    });
+    this.doc.pipe(output);
+
+    const hasCover = this.options.cover !== false;
+    if (hasCover) {
+      this.renderCover();
+    }
+    this.renderContents(sections);
+
+    // Outline entries follow the TOC nesting
+    const outlineStack: PDFKit.PDFOutline[] = [];
+    for (const section of sections) {
+      this.doc.addPage();
+      this.doc.addNamedDestination(section.destination);
+
+      outlineStack.length = Math.min(section.level, outlineStack.length);
+      const parent = outlineStack[outlineStack.length - 1] ?? this.doc.outline;
+      outlineStack.push(parent.addItem(this.encode(section.title)));
+
+      this.renderTokens(marked.lexer(section.markdown), section, this.left(), this.contentWidth());
+    }
+
+    this.renderPageNumbers(hasCover ? 1 : 0);
+    this.doc.end();
+    await finished;
+  }
+
+  /**
+   * Split the export into sections: the pages listed in index.md, or the page blocks of document.md
+   */
+  private async loadSections(markdownPath: string): Promise<PdfSection[]> {
+    const baseDir = path.dirname(markdownPath);
+    const body = this.stripFrontmatter(await fs.readFile(markdownPath, 'utf-8'));
+    const sections: PdfSection[] = [];
+
+    if (path.basename(markdownPath) === 'document.md') {
+      // Pages are separated by <a id="..."></a> anchors; the TOC before them gives their levels
+      const parts = body.split(/^<a id="([^"]+)"><\/a>$/m);
+      const tocEntries = this.readToc(parts[0]);
+      for (let i = 1; i < parts.length; i += 2) {
+        const destination = parts[i];
+        const markdown = parts[i + 1].replace(/\n---\s*$/, '\n');
+        const entry = tocEntries.find(tocEntry => tocEntry.href === `#${destination}`);
+        sections.push({
+          title: entry?.title ?? this.firstHeading(markdown) ?? destination,
+          level: entry?.level ?? 0,
+          destination,
+          markdown,
+          baseDir
+        });
+      }
+    } else {
+      // The index lists every page file in reading order
+      const tocEntries = this.readToc(body);
+      for (let i = 0; i < tocEntries.length; i++) {
+        const { href, title, level } = tocEntries[i];
+        const filePath = path.resolve(baseDir, decodeURIComponent(href));
+        let markdown: string;
+        try {
+          markdown = this.stripFrontmatter(await fs.readFile(filePath, 'utf-8'));
+        } catch (e) {
+          continue;
+        }
+        const destination = `page-${i + 1}`;
+        this.destinationsByFile.set(filePath, destination);
+        sections.push({ title, level, destination, markdown, baseDir: path.dirname(filePath) });
+      }
+    }
+
+    for (const section of sections) {
+      this.destinations.add(section.destination);
+    }
+    return sections;
+  }
+
+  /**
+   * Read the links of the first (possibly nested) list in a Markdown document
+   */
+  private readToc(markdown: string): { href: string; title: string; level: number }[] {
+    const entries: { href: string; title: string; level: number }[] = [];
+    const walk = (list: Tokens.List, level: number) => {
+      for (const item of list.items) {
+        for (const token of item.tokens) {
+          if (token.type === 'list') {
+            walk(token as Tokens.List, level + 1);
+            continue;
+          }
+          const link = childTokens(token).find(child => child.type === 'link') as Tokens.Link | undefined;
+          if (link) {
+            entries.push({ href: link.href, title: this.plainText(link.tokens), level });
+          }
+        }
+      }
+    };
+
+    const list = marked.lexer(markdown).find(token => token.type === 'list');
+    if (list) {
+      walk(list as Tokens.List, 0);
+    }
+    return entries;
+  }
+
+  /**
+   * Cover page with the document title, source URL and export date
+   */
+  private renderCover(): void {
+    const doc = this.doc;
+    doc.addPage();
+    doc.y = doc.page.height / 3;
+    doc.font(this.fonts.bold).fontSize(28).fillColor(TEXT_COLOR)
+      .text('Exported Documentation', this.left(), doc.y, { width: this.contentWidth(), align: 'center' });
+    doc.moveDown(1.5);
+    if (this.options.sourceUrl) {
+      doc.font(this.fonts.regular).fontSize(12).fillColor(LINK_COLOR)
+        .text(this.encode(this.options.sourceUrl), { width: this.contentWidth(), align: 'center', link: this.options.sourceUrl });
+      doc.moveDown(0.5);
+    }
+    doc.font(this.fonts.regular).fontSize(11).fillColor(MUTED_COLOR)
+      .text(`Exported on ${new Date().toISOString().slice(0, 10)}`, { width: this.contentWidth(), align: 'center' });
+  }
+
+  /**
+   * Table of contents page; every entry links to its section
+   */
+  private renderContents(sections: PdfSection[]): void {
+    const doc = this.doc;
+    doc.addPage();
+    doc.font(this.fonts.bold).fontSize(HEADING_SIZES[1]).fillColor(TEXT_COLOR).text('Table of Contents', this.left(), doc.y);
+    doc.moveDown(0.8);
+
+    for (const section of sections) {
+      const indent = section.level * 16;
+      doc.font(section.level === 0 ? this.fonts.bold : this.fonts.regular).fontSize(BODY_SIZE).fillColor(LINK_COLOR)
+        .text(this.encode(section.title), this.left() + indent, doc.y, {
+          width: this.contentWidth() - indent,
+          goTo: section.destination
+        } as PDFKit.Mixins.TextOptions);
+      doc.moveDown(0.25);
+    }
+  }
+
+  /**
+   * Render block tokens at the given horizontal position and width
+   */
+  private renderTokens(tokens: Token[], section: PdfSection, x: number, width: number): void {
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'heading':
+          this.renderHeading(token as Tokens.Heading, section, x, width);
+          break;
+        case 'paragraph':
+        case 'text':
+          this.renderInline(childTokens(token).length > 0 ? childTokens(token) : [token], section, x, width);
+          this.doc.moveDown(0.6);
+          break;
+        case 'code':
+          this.renderCode(token as Tokens.Code, x, width);
+          break;
+        case 'list':
+          this.renderList(token as Tokens.List, section, x, width);
+          break;
+        case 'table':
+          this.renderTable(token as Tokens.Table, section, x, width);
+          break;
+        case 'blockquote':
+          this.renderBlockquote(token as Tokens.Blockquote, section, x, width);
+          break;
+        case 'hr':
+          this.ensureSpace(12);
+          this.doc.moveTo(x, this.doc.y + 4).lineTo(x + width, this.doc.y + 4).lineWidth(0.5).strokeColor(BORDER_COLOR).stroke();
+          this.doc.y += 12;
+          break;
+        case 'html': {
+          // Keep the text of HTML blocks such as <details>, dropping the tags
+          const text = this.decodeEntities(token.raw.replace(/<[^>]+>/g, '')).trim();
+          if (text) {
+            this.renderInline([{ type: 'text', raw: text, text }], section, x, width);
+            this.doc.moveDown(0.6);
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    }
+  }
+
+  /**
+   * Headings stay with the text that follows them
+   */
+  private renderHeading(token: Tokens.Heading, section: PdfSection, x: number, width: number): void {
+    const size = HEADING_SIZES[Math.min(token.depth, 6)];
+    this.ensureSpace(size * 4);
+    if (token.depth > 1) {
+      this.doc.moveDown(0.4);
+    }
+    const runs = this.flattenInline(token.tokens, section, { font: this.fonts.bold, size, color: TEXT_COLOR });
+    this.writeRuns(runs.filter((part): part is TextRun => 'text' in part), x, width);
+    if (token.depth <= 2) {
+      this.doc.moveTo(x, this.doc.y + 2).lineTo(x + width, this.doc.y + 2).lineWidth(0.5).strokeColor(BORDER_COLOR).stroke();
+      this.doc.y += 6;
+    }
+    this.doc.moveDown(0.4);
+  }
+
+  /**
+   * Render inline tokens as wrapped text, placing images as blocks where they occur
+   */
+  private renderInline(tokens: Token[], section: PdfSection, x: number, width: number): void {
+    let line: TextRun[] = [];
+    for (const part of this.flattenInline(tokens, section, { font: this.fonts.regular, size: BODY_SIZE, color: TEXT_COLOR })) {
+      if ('image' in part) {
+        this.writeRuns(line, x, width);
+        line = [];
+        this.renderImage(part.image, section, x, width);
+      } else {
+        line.push(part);
+      }
+    }
+    this.writeRuns(line, x, width);
+  }
+
+  /**
+   * Write text runs as one paragraph using continued text
+   */
+  private writeRuns(runs: TextRun[], x: number, width: number): void {
+    const parts = runs.filter(run => run.text);
+    if (parts.length === 0 || parts.every(run => !run.text.trim())) {
+      return;
+    }
+
+    this.ensureSpace(parts[0].size * 1.5);
+    this.doc.x = x;
+    parts.forEach((run, i) => {
+      this.doc.font(run.font).fontSize(run.size).fillColor(run.color);
+      const options = {
+        width,
+        continued: i < parts.length - 1,
+        link: run.link ?? null,
+        goTo: run.goTo ?? null,
+        underline: !!(run.link || run.goTo)
+      };
+      this.doc.text(run.text, options as unknown as PDFKit.Mixins.TextOptions);
+    });
+    this.doc.x = this.left();
+  }
+
+  /**
+   * Turn inline tokens into styled text runs and images
+   */
+  private flattenInline(tokens: Token[], section: PdfSection, style: Omit<TextRun, 'text'>): InlinePart[] {
+    const parts: InlinePart[] = [];
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'strong':
+          parts.push(...this.flattenInline(childTokens(token), section, { ...style, font: this.withBold(style.font) }));
+          break;
+        case 'em':
+          parts.push(...this.flattenInline(childTokens(token), section, { ...style, font: this.withItalic(style.font) }));
+          break;
+        case 'del':
+          parts.push(...this.flattenInline(childTokens(token), section, { ...style, color: MUTED_COLOR }));
+          break;
+        case 'codespan':
+          parts.push({ ...style, text: this.encode(this.decodeEntities((token as Tokens.Codespan).text), true), font: this.fonts.mono, size: style.size - 1 });
+          break;
+        case 'link': {
+          const target = this.resolveLink((token as Tokens.Link).href, section);
+          parts.push(...this.flattenInline(childTokens(token), section, { ...style, color: LINK_COLOR, ...target }));
+          break;
+        }
+        case 'image':
+          parts.push({ image: token as Tokens.Image });
+          break;
+        case 'br':
+          parts.push({ ...style, text: '\n' });
+          break;
+        case 'html': {
+          // Inline HTML: <br> breaks the line, anchors and other tags are dropped
+          if (/^<br\s*\/?>$/i.test(token.raw)) {
+            parts.push({ ...style, text: '\n' });
+          }
+          break;
+        }
+        case 'text':
+        case 'escape':
+          if (childTokens(token).length > 0) {
+            parts.push(...this.flattenInline(childTokens(token), section, style));
+          } else {
+            parts.push({ ...style, text: this.encode(this.decodeEntities((token as Tokens.Text).text)) });
+          }
+          break;
+        default:
+          if ('text' in token && typeof token.text === 'string') {
+            parts.push({ ...style, text: this.encode(this.decodeEntities(token.text)) });
+          }
+      }
+    }
+    return parts;
+  }
+
+  /**
+   * Embed a local PNG or JPEG image scaled to fit; other images are shown as their alt text
+   */
+  private renderImage(token: Tokens.Image, section: PdfSection, x: number, width: number): void {
+    const doc = this.doc;
+    const imagePath = /^[a-z][a-z0-9+.-]*:/i.test(token.href) ? null : path.resolve(section.baseDir, decodeURIComponent(token.href));
+
+    if (imagePath && /\.(png|jpe?g)$/i.test(imagePath) && existsSync(imagePath)) {
+      try {
+        const image = (doc as unknown as { openImage(src: string): { width: number; height: number } }).openImage(imagePath);
+        const maxHeight = (doc.page.height - doc.page.margins.top - doc.page.margins.bottom) * 0.6;
+        const scale = Math.min(1, width / image.width, maxHeight / image.height);
+        const imageHeight = image.height * scale;
+        this.ensureSpace(imageHeight + 8);
+        doc.image(imagePath, x, doc.y, { width: image.width * scale, height: imageHeight });
+        doc.y += imageHeight + 8;
+        doc.x = this.left();
+        return;
+      } catch (e) {
+        // Fall through to the alt text for images PDFKit cannot decode
+      }
+    }
+
+    const label = token.text ? `[Image: ${token.text}]` : '[Image]';
+    const remote = /^https?:/i.test(token.href) ? token.href : undefined;
+    this.writeRuns([{ text: this.encode(label), font: this.fonts.italic, size: BODY_SIZE, color: remote ? LINK_COLOR : MUTED_COLOR, link: remote }], x, width);
+  }
+
+  /**
+   * Code blocks on a shaded background with simple syntax colors; long lines wrap
+   */
+  private renderCode(token: Tokens.Code, x: number, width: number): void {
+    const doc = this.doc;
+    const padding = 6;
+    doc.font(this.fonts.mono).fontSize(CODE_SIZE);
+    const charWidth = doc.widthOfString('M');
+    const lineHeight = CODE_SIZE * 1.35;
+    const maxChars = Math.max(10, Math.floor((width - padding * 2) / charWidth));
+    const language = (token.lang ?? '').toLowerCase();
+
+    // Wrap long lines, keeping each wrapped piece's syntax colors
+    const lines: { text: string; color: string }[][] = [];
+    for (const sourceLine of this.encode(token.text.replace(/\t/g, '    '), true).split('\n')) {
+      const segments = this.highlight(sourceLine, language);
+      let current: { text: string; color: string }[] = [];
+      let length = 0;
+      for (const segment of segments) {
+        let text = segment.text;
+        while (length + text.length > maxChars) {
+          const room = maxChars - length;
+          current.push({ text: text.slice(0, room), color: segment.color });
+          lines.push(current);
+          current = [];
+          length = 0;
+          text = text.slice(room);
+        }
+        if (text) {
+          current.push({ text, color: segment.color });
+          length += text.length;
+        }
+      }
+      lines.push(current);
+    }
+
+    this.ensureSpace(lineHeight * Math.min(lines.length, 3) + padding * 2);
+    doc.rect(x, doc.y, width, padding).fill(CODE_BACKGROUND);
+    doc.y += padding;
+
+    for (const line of lines) {
+      if (doc.y + lineHeight > this.bottom()) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      doc.rect(x, y, width, lineHeight).fill(CODE_BACKGROUND);
+      let column = 0;
+      for (const segment of line) {
+        doc.font(this.fonts.mono).fontSize(CODE_SIZE).fillColor(segment.color)
+          .text(segment.text, x + padding + column * charWidth, y + 1, { lineBreak: false });
+        column += segment.text.length;
+      }
+      doc.y = y + lineHeight;
+    }
+
+    doc.rect(x, doc.y, width, padding).fill(CODE_BACKGROUND);
+    doc.y += padding + 8;
+    doc.x = this.left();
+    doc.fillColor(TEXT_COLOR);
+  }
+
+  /**
+   * Split a line of code into comment, string, number, keyword and plain segments
+   */
+  private highlight(line: string, language: string): { text: string; color: string }[] {
+    const commentPattern = HASH_COMMENT_LANGUAGES.has(language) ? '#.*$' : '\\/\\/.*$|\\/\\*.*?\\*\\/|<!--.*?-->';
+    const pattern = new RegExp(`(${commentPattern})|("(?:[^"\\\\]|\\\\.)*"?|'(?:[^'\\\\]|\\\\.)*'?|\`[^\`]*\`?)|(\\b\\d[\\d._xa-fA-F]*\\b)|([A-Za-z_][\\w]*)`, 'g');
+    const segments: { text: string; color: string }[] = [];
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(line)) !== null) {
+      if (match.index > lastIndex) {
+        segments.push({ text: line.slice(lastIndex, match.index), color: SYNTAX_COLORS.plain });
+      }
+      let color = SYNTAX_COLORS.plain;
+      if (match[1]) color = SYNTAX_COLORS.comment;
+      else if (match[2]) color = SYNTAX_COLORS.string;
+      else if (match[3]) color = SYNTAX_COLORS.number;
+      else if (match[4] && KEYWORDS.has(match[4])) color = SYNTAX_COLORS.keyword;
+      segments.push({ text: match[0], color });
+      lastIndex = pattern.lastIndex;
+    }
+    if (lastIndex < line.length) {
+      segments.push({ text: line.slice(lastIndex), color: SYNTAX_COLORS.plain });
+    }
+    return segments;
+  }
+
+  /**
+   * Bulleted and numbered lists, with nested lists indented
+   */
+  private renderList(token: Tokens.List, section: PdfSection, x: number, width: number): void {
+    const doc = this.doc;
+    const indent = 16;
+    let number = typeof token.start === 'number' ? token.start : 1;
+
+    for (const item of token.items) {
+      this.ensureSpace(BODY_SIZE * 2);
+      const marker = item.task ? (item.checked ? '[x]' : '[ ]') : (token.ordered ? `${number++}.` : '•');
+      const y = doc.y;
+      doc.font(this.fonts.regular).fontSize(BODY_SIZE).fillColor(TEXT_COLOR)
+        .text(marker, x, y, { width: indent - 2, align: 'right', lineBreak: false });
+      doc.y = y;
+
+      // Tight list items hold text tokens instead of paragraphs
+      const tokens = item.tokens.filter(child => child.type !== 'checkbox');
+      for (const child of tokens) {
+        if (child.type === 'text') {
+          this.renderInline(childTokens(child).length > 0 ? childTokens(child) : [child], section, x + indent + 4, width - indent - 4);
+        } else {
+          this.renderTokens([child], section, x + indent + 4, width - indent - 4);
+        }
+      }
+      doc.moveDown(item.loose ? 0.4 : 0.15);
+    }
+    doc.moveDown(0.4);
+  }
+
+  /**
+   * Tables with a shaded header row; column widths follow the length of their content
+   */
+  private renderTable(token: Tokens.Table, section: PdfSection, x: number, width: number): void {
+    const doc = this.doc;
+    const padding = 4;
+    const size = BODY_SIZE - 1.5;
+    const rows = [token.header, ...token.rows];
+    const columns = token.header.length;
+
+    const cellText = (cell: Tokens.TableCell) => this.plainText(cell.tokens).replace(/<br\s*\/?>/gi, '\n');
+    const weights = Array.from({ length: columns }, (_, column) =>
+      Math.min(40, Math.max(4, ...rows.map(row => Math.max(...cellText(row[column] ?? { text: '', tokens: [] } as unknown as Tokens.TableCell).split('\n').map(line => line.length))))));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const widths = weights.map(weight => (weight / totalWeight) * width);
+
+    rows.forEach((row, rowIndex) => {
+      const isHeader = rowIndex === 0;
+      const font = isHeader ? this.fonts.bold : this.fonts.regular;
+      doc.font(font).fontSize(size);
+
+      const texts = widths.map((_, column) => this.encode(row[column] ? cellText(row[column]) : ''));
+      const height = Math.max(...texts.map((text, column) => doc.heightOfString(text || ' ', { width: widths[column] - padding * 2 }))) + padding * 2;
+
+      if (doc.y + height > this.bottom()) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      let cellX = x;
+      texts.forEach((text, column) => {
+        if (isHeader) {
+          doc.rect(cellX, y, widths[column], height).fill(CODE_BACKGROUND);
+        }
+        doc.rect(cellX, y, widths[column], height).lineWidth(0.5).strokeColor(BORDER_COLOR).stroke();
+        doc.font(font).fontSize(size).fillColor(TEXT_COLOR)
+          .text(text, cellX + padding, y + padding, { width: widths[column] - padding * 2, align: token.align[column] ?? 'left' });
+        cellX += widths[column];
+      });
+      doc.y = y + height;
+    });
+
+    doc.x = this.left();
+    doc.moveDown(0.8);
+  }
+
+  /**
+   * Block quotes with a bar on the left; GitHub alerts such as [!WARNING] get a colored label
+   */
+  private renderBlockquote(token: Tokens.Blockquote, section: PdfSection, x: number, width: number): void {
+    const doc = this.doc;
+    let tokens = token.tokens;
+    let color = BORDER_COLOR;
+
+    const first = tokens[0] as Tokens.Paragraph | undefined;
+    const alert = first?.type === 'paragraph' ? /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*/.exec(first.text) : null;
+    if (alert && first) {
+      color = ALERT_COLORS[alert[1]];
+      const rest = first.text.slice(alert[0].length);
+      tokens = [...(rest ? marked.lexer(rest) : []), ...tokens.slice(1)];
+      this.ensureSpace(BODY_SIZE * 3);
+      doc.font(this.fonts.bold).fontSize(BODY_SIZE).fillColor(color)
+        .text(alert[1].charAt(0) + alert[1].slice(1).toLowerCase(), x + 12, doc.y, { width: width - 12 });
+      doc.moveDown(0.2);
+    }
+
+    const page = doc.page;
+    const startY = doc.y - (alert ? BODY_SIZE * 1.4 : 0);
+    this.renderTokens(tokens, section, x + 12, width - 12);
+    const top = doc.page === page ? startY : doc.page.margins.top;
+    doc.rect(x, top, 3, Math.max(doc.y - top - 4, BODY_SIZE)).fill(color);
+    doc.fillColor(TEXT_COLOR);
+  }
+
+  /**
+   * Page numbers in the footer of every page after the cover
+   */
+  private renderPageNumbers(skip: number): void {
+    const doc = this.doc;
+    const range = doc.bufferedPageRange();
+    for (let i = range.start + skip; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0; // Writing inside the margin must not start a new page
+      doc.font(this.fonts.regular).fontSize(9).fillColor(MUTED_COLOR)
+        .text(`${i - range.start - skip + 1} / ${range.count - skip}`, this.left(), doc.page.height - bottomMargin / 2 - 4, {
+          width: this.contentWidth(),
+          align: 'center',
+          lineBreak: false
+        });
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  /**
+   * Link target for a Markdown link: an internal destination or an external URL
+   */
+  private resolveLink(href: string, section: PdfSection): { link?: string; goTo?: string } {
+    if (href.startsWith('#')) {
+      const name = href.slice(1);
+      return this.destinations.has(name) ? { goTo: name } : {};
+    }
+    if (/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+      return { link: href };
+    }
+
+    // Relative links between exported page files
+    const [file] = href.split('#');
+    const destination = this.destinationsByFile.get(path.resolve(section.baseDir, decodeURIComponent(file)));
+    return destination ? { goTo: destination } : {};
+  }
+
+  /**
+   * Start a new page unless the given height still fits on this one
+   */
+  private ensureSpace(height: number): void {
+    if (this.doc.y + height > this.bottom()) {
+      this.doc.addPage();
+    }
+  }
+
+  /**
+   * Plain text of inline tokens
+   */
+  private plainText(tokens: Token[]): string {
+    return tokens.map(token => {
+      if (childTokens(token).length > 0) {
+        return this.plainText(childTokens(token));
+      }
+      if (token.type === 'br') {
+        return '\n';
+      }
+      return this.decodeEntities('text' in token && typeof token.text === 'string' ? token.text : '');
+    }).join('');
+  }
+
+  /**
+   * Make text printable with the fonts in use; the standard fonts only cover Western European characters
+   */
+  private encode(text: string, monospace = false): string {
+    if (this.options.font && !monospace) {
+      return text;
+    }
+    return text.replace(/[^\x00-\xff]/g, char => WIN_ANSI_EXTRA.includes(char) ? char : (REPLACEMENTS[char] ?? '?'));
+  }
+
+  private decodeEntities(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private stripFrontmatter(markdown: string): string {
+    return markdown.replace(/^---\n[\s\S]*?\n---\n/, '');
+  }
+
+  private firstHeading(markdown: string): string | undefined {
+    return /^#\s+(.+)$/m.exec(markdown)?.[1];
+  }
+
+  private withBold(font: string): string {
+    if (font === this.fonts.italic) return this.fonts.boldItalic;
+    return font === this.fonts.mono ? font : this.fonts.bold;
+  }
+
+  private withItalic(font: string): string {
+    if (font === this.fonts.bold) return this.fonts.boldItalic;
+    return font === this.fonts.mono ? font : this.fonts.italic;
+  }
+
+  private left(): number {
+    return this.doc.page.margins.left;
+  }
+
+  private bottom(): number {
+    return this.doc.page.height - this.doc.page.margins.bottom;
+  }
+
+  private contentWidth(): number {
+    return this.doc.page.width - this.doc.page.margins.left - this.doc.page.margins.right;
+  }
+}
@@ -0,0 +1,271 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { PageSink, ParallelCrawler } from './crawler.js';
+import { DocumentConverter } from './converter.js';
+import { CrawlerConfig, CrawlReport, PageData } from './interfaces.js';
+import { ReportWriter } from './report.js';
+import { ConfigError, ExportJob, ExportSource, validateConfig } from './config.js';
+import { createContext, ExportContext, ExportEvents } from './events.js';
+import { Logger } from './logger.js';
+import { loadPlugins } from './plugins.js';
+import { createFetcher, HttpFetcher } from './fetcher.js';
+import { WarcWriter } from './warc.js';
+
+/**
+ * An export that ran but could not produce anything, e.g. because no page could be fetched
+ */
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+/**
+ * Settings used by exportDocs for anything the caller leaves out, matching the CLI defaults
+ */
+export const DEFAULT_CONFIG: Omit<CrawlerConfig, 'outputDir'> = {
+  maxConcurrency: 5,
+  sameDomain: true,
+  maxUrlsPerDomain: 200,
+  requestTimeout: 5000,
+  maxRunTime: 30000,
+  crawlDelay: 100,
+  outputFormat: 'markdown',
+  splitPages: 'none'
+};
+
+/**
+ * Options of exportDocs: any CrawlerConfig field, the seed URLs, and the runtime hooks
+ */
+export interface ExportOptions extends Partial<CrawlerConfig> {
+  outputDir: string;
+  url?: string;                   // Seed URL
+  urls?: string[];                // Several seed URLs, exported together
+  sources?: ExportSource[];       // Sources with their own settings, instead of url/urls (see resolveJobs)
+  report?: 'markdown' | 'html';   // Also write crawl-report.md or crawl-report.html
+  signal?: AbortSignal;           // Cancels the export; exportDocs then rejects with the signal's reason
+  logger?: Logger;                // Receives progress messages (default: none)
+  events?: ExportEvents;          // Receives pageFetched, pageSkipped, pageFailed, converted and written events
+}
+
+/**
+ * Counts and timings of an export
+ */
+export interface ExportStats {
+  pages: number;      // Pages exported
+  failed: number;     // URLs that could not be fetched
+  skipped: number;    // URLs not crawled because of filters, robots.txt or limits
+  crawlMs: number;
+  convertMs: number;
+  durationMs: number;
+}
+
+/**
+ * Outcome of exportDocs
+ */
+export interface ExportResult {
+  outputPath: string; // Main output: document.md or index.md, or the generated document for other formats
+  files: string[];    // Every export file written
+  pages: PageData[];  // Exported pages, without their HTML content and links, which are dropped once converted
+  report: CrawlReport;
+  stats: ExportStats;
+}
+
+/**
+ * Crawl documentation and export it, without printing anything or exiting the process.
+ * Invalid options reject with a ConfigError.
+ */
+export async function exportDocs(options: ExportOptions): Promise<ExportResult> {
+  const { url, urls, sources, report, signal, logger, events, ...values } = options;
+  const config: CrawlerConfig = { ...DEFAULT_CONFIG, ...values, outputDir: path.resolve(options.outputDir) };
+  validateConfig(config);
+
+  const seeds = urls ?? (url ? [url] : []);
+  if (seeds.length === 0 && !sources?.length) {
+    throw new ConfigError('Pass a seed "url", "urls" or "sources" to export');
+  }
+  const job: ExportJob = {
+    name: seeds[0] ?? 'export',
+    config,
+    sources: sources ?? [{ name: 'default', urls: seeds, config }],
+    report
+  };
+  return runExport(job, { logger, events, signal });
+}
+
+/**
+ * Crawl every seed URL of a job's sources and write the export
+ */
+export async function runExport(job: ExportJob, options: Partial<ExportContext> = {}): Promise<ExportResult> {
+  const { config } = job;
+  const context = createContext(options);
+  const { logger, signal } = context;
+  signal?.throwIfAborted();
+  const runStart = performance.now();
+
+  // Collect the files written by the converter and the reports
+  const files: string[] = [];
+  const onWritten = ({ path: filePath }: { path: string }) => files.push(filePath);
+  context.events.on('written', onWritten);
+
+  // One WARC file records the responses of every source, including downloaded assets
+  const recorder = config.warcOutput && !config.warcInput && !config.fetcher
+    ? new WarcWriter(config.warcOutput, config.resume)
+    : undefined;
+  const fetcherFor = (values: CrawlerConfig, sites: string[]) => values.fetcher ?? createFetcher(values, { recorder, sites });
+  let converter: DocumentConverter | undefined;
+
+  try {
+    // Load plugin modules up front; the converter runs the plugins of every source
+    const sources = await Promise.all(job.sources.map(async source => ({
+      ...source,
+      config: { ...source.config, plugins: await loadPlugins(source.config.plugins) }
+    })));
+    const plugins = [...new Set(sources.flatMap(source => source.config.plugins))];
+    await fs.mkdir(config.outputDir, { recursive: true });
+
+    const seedCount = sources.reduce((count, source) => count + source.urls.length, 0);
+    logger.info(`[1/4] Initializing crawler (${config.maxConcurrency} parallel workers)`);
+    if (plugins.length > 0) {
+      logger.info(`Using plugins: ${plugins.map(plugin => plugin.name).join(', ')}`);
+    }
+    if (config.warcInput) {
+      logger.info(`Replaying responses from ${config.warcInput}`);
+    } else if (config.localDir) {
+      logger.info(`Reading pages from ${config.localDir}`);
+    } else if (recorder) {
+      logger.info(`Recording responses to ${config.warcOutput}`);
+    }
+    const converterFetcher = fetcherFor(config, sources.flatMap(source => source.urls));
+    if (converterFetcher instanceof HttpFetcher && (config.auth || config.cookieFile)) {
+      const scheme = converterFetcher.httpsOnly ? ' (over https)' : '';
+      logger.info(`Sending credentials and cookies only to: ${converterFetcher.scope.join(', ')}${scheme}`);
+    }
+    converter = new DocumentConverter({ ...config, plugins, fetcher: converterFetcher }, context);
+    const pageConverter = converter;
+
+    // Start crawling, one crawler per seed URL. Each page is converted as soon as it is fetched and only its
+    // metadata stays in memory; the export files are assembled from the converted pages afterwards.
+    const startTime = performance.now();
+    const pages: PageData[] = [];
+    const reports: CrawlReport[] = [];
+    const seen = new Set<string>();
+    let nextOrder = 0;
+    for (const source of sources) {
+      if (sources.length > 1) {
+        logger.info(`Source "${source.name}": ${source.urls.join(', ')}`);
+      }
+      if (source.config.allowedPrefixes) {
+        logger.info(`Using URL prefix filter: ${source.config.allowedPrefixes.join(', ')}`);
+      }
+      if (source.config.ignorePrefixes) {
+        logger.info(`Using URL ignore filter: ${source.config.ignorePrefixes.join(', ')}`);
+      }
+
+      const sourceStart = pages.length;
+      const fetcher = fetcherFor(source.config, source.urls);
+      for (const [i, url] of source.urls.entries()) {
+        // Each seed keeps its own checkpoint; resuming without a state directory uses one inside the output directory
+        let stateDir = source.config.stateDir ?? (source.config.resume ? path.join(config.outputDir, '.crawl-state') : undefined);
+        if (stateDir && seedCount > 1) {
+          stateDir = path.join(stateDir, `${source.name}-${i + 1}`);
+        }
+        const crawler = new ParallelCrawler({ ...source.config, outputDir: config.outputDir, stateDir, fetcher }, context);
+        const onPage: PageSink = async page => {
+          // A page already exported for an earlier seed keeps its first source
+          if (seen.has(page.url)) {
+            return;
+          }
+          if (sources.length > 1) {
+            pageConverter.setPageExtractor([page.url], source.config);
+          }
+          await pageConverter.addPage(page, config.outputDir);
+        };
+
+        // Keep the pages of each seed together when ordering the export
+        const orderOffset = nextOrder;
+        for (const page of await crawler.crawl(url, onPage)) {
+          if (!seen.has(page.url)) {
+            seen.add(page.url);
+            if (page.order !== undefined) {
+              page.order += orderOffset;
+            }
+            nextOrder = Math.max(nextOrder, (page.order ?? 0) + 1);
+            pages.push(page);
+          }
+        }
+        reports.push(crawler.getReport());
+        signal?.throwIfAborted();
+      }
+
+      if (sources.length > 1) {
+        converter.setPageExtractor(pages.slice(sourceStart).map(page => page.url), source.config);
+      }
+    }
+    const crawlMs = Math.round(performance.now() - startTime);
+
+    logger.info(`[2/4] Found ${pages.length} pages in ${(crawlMs / 1000).toFixed(1)}s`);
+
+    // Write the crawl report before conversion so it exists even if nothing was exported
+    const report = reports.length === 1 ? reports[0] : ReportWriter.merge(reports);
+    const reportPaths = await new ReportWriter().write(report, config.outputDir, job.report);
+    reportPaths.forEach(reportPath => context.events.emit('written', { path: reportPath }));
+    logger.info(`Crawl report: ${reportPaths.map(reportPath => path.basename(reportPath)).join(', ')}`);
+
+    // Check if we have any pages
+    if (pages.length === 0) {
+      throw new ExportError('No pages were successfully crawled. Please try with a different URL or increase the timeout settings.');
+    }
+
+    // Process HTML to Markdown
+    const convertStart = performance.now();
+    const markdownPath = await converter.processPages(pages, config.outputDir, config.splitPages);
+
+    // Get markdown file size
+    const stats = await fs.stat(markdownPath);
+    const markdownSizeMB = (stats.size / (1024 * 1024)).toFixed(1);
+
+    logger.info(`[3/4] Converted ${pages.length} pages to Markdown (${markdownSizeMB}MB)`);
+    signal?.throwIfAborted();
+
+    // Generate document
+    const sourceUrl = job.sources[0]?.urls[0];
+    let outputPath = markdownPath;
+    if (config.outputFormat === 'pdf') {
+      outputPath = await converter.generatePDF(markdownPath, config.outputDir, sourceUrl);
+    } else if (config.outputFormat === 'epub') {
+      outputPath = await converter.generateEPUB(pages, config.outputDir, sourceUrl);
+    } else if (config.outputFormat === 'jsonl') {
+      outputPath = await converter.generateJSONL(pages, config.outputDir);
+    } else if (config.outputFormat === 'llms') {
+      outputPath = await converter.generateLLMS(pages, config.outputDir, config.llmsLinks);
+    }
+    const convertMs = Math.round(performance.now() - convertStart);
+
+    logger.info(`[4/4] Document generated: ${path.basename(outputPath)}`);
+    if (recorder) {
+      await recorder.flush();
+      logger.info(`Saved ${recorder.size} responses to ${config.warcOutput}`);
+    }
+    return {
+      outputPath,
+      files,
+      pages,
+      report,
+      stats: {
+        pages: pages.length,
+        failed: report.summary.failed,
+        skipped: report.summary.skipped,
+        crawlMs,
+        convertMs,
+        durationMs: Math.round(performance.now() - runStart)
+      }
+    };
+  } finally {
+    context.events.off('written', onWritten);
+    // Keep the responses recorded before a failure or cancellation
+    await recorder?.flush();
+    await converter?.discardDrafts(config.outputDir);
+  }
+}
@@ -0,0 +1,237 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import type TurndownService from 'turndown';
+import { ConfigError } from './config.js';
+import { Logger, silentLogger } from './logger.js';
+
+/**
+ * Hooks a plugin can register. All hooks are optional and run in plugin order.
+ */
+export interface DocPlugin {
+  name: string;
+  filterUrl?(url: string, referrer?: string): boolean;       // Return false to skip a discovered link
+  afterFetch?($: CheerioAPI, url: string): void;              // Edit a fetched page's DOM before links and content are kept
+  turndownRules?(turndown: TurndownService): void;            // Add Turndown rules; they take precedence over the built-in ones
+  afterMarkdown?(markdown: string, url?: string): string;     // Edit the Markdown of a page
+  beforeWrite?(content: string, file: string, url?: string): string; // Edit a text file before it is written
+  beforeWriteChunk?(chunk: string, file: string, url?: string): string; // Edit each piece of a text file as it is written
+}
+
+/**
+ * Turn each tab of a tab widget into a bold label followed by its panel, innermost widgets first
+ */
+function unwrapTabs($: CheerioAPI, containers: Cheerio<Element>, labelSelector: string, panelSelector: string): void {
+  for (const container of containers.get().reverse()) {
+    const labels = $(container).find(labelSelector).map((_, label) => $(label).text().trim()).get();
+    const panels = $(container).find(panelSelector);
+    if (panels.length === 0) {
+      continue;
+    }
+    const html = panels.map((i, panel) => {
+      const label = labels[i] ? `<p><strong>${$('<span>').text(labels[i]).html()}</strong></p>` : '';
+      return label + ($(panel).html() ?? '');
+    }).get().join('\n');
+    $(container).replaceWith(`<div>${html}</div>`);
+  }
+}
+
+const FEEDBACK_PATTERN = /was this (page|article|doc\w*) helpful/i;
+
+/**
+ * Plugins shipped with doc-export, usable by name
+ */
+export const BUILTIN_PLUGINS: DocPlugin[] = [
+  {
+    name: 'docusaurus',
+    filterUrl: url => !/\/tags(\/|$)/.test(new URL(url).pathname),
+    afterFetch: $ => unwrapTabs($, $('.tabs-container'), '[role="tab"]', '[role="tabpanel"]')
+  },
+  {
+    name: 'mkdocs-material',
+    filterUrl: url => !/\/(tags|search)(\/|$)/.test(new URL(url).pathname),
+    afterFetch: $ => {
+      // Newer versions keep labels and panels in separate containers, older ones alternate them
+      unwrapTabs($, $('.tabbed-set').filter((_, set) => $(set).find('.tabbed-block').length > 0), '.tabbed-labels > label', '.tabbed-block');
+      unwrapTabs($, $('.tabbed-set'), '.tabbed-set > label', '.tabbed-set > .tabbed-content');
+    }
+  },
+  {
+    name: 'sphinx',
+    filterUrl: url => !/\/(genindex|py-modindex|search)(\.html)?$|\/_sources\//.test(new URL(url).pathname),
+    afterFetch: $ => {
+      unwrapTabs($, $('.sphinx-tabs'), '[role="tab"]', '[role="tabpanel"]');
+      unwrapTabs($, $('.sd-tab-set'), '.sd-tab-label', '.sd-tab-content');
+    }
+  },
+  {
+    name: 'vitepress',
+    afterFetch: $ => unwrapTabs($, $('.vp-code-group'), '.tabs label', '.blocks > div')
+  },
+  {
+    name: 'page-feedback',
+    // Drop the "Was this page helpful?" widget: the innermost element asking, grown to its small enclosing block
+    afterFetch: $ => {
+      $('body *').filter((_, element) => FEEDBACK_PATTERN.test($(element).text()) &&
+        !$(element).children().get().some(child => FEEDBACK_PATTERN.test($(child).text()))
+      ).each((_, element) => {
+        let block = $(element);
+        while (block.parent().length > 0 && !block.parent().is('body, main, article') &&
+               block.parent().find('h1, h2, h3, h4, h5, h6').length === 0 && block.parent().text().trim().length < 300) {
+          block = block.parent();
+        }
+        block.remove();
+      });
+    }
+  }
+];
+
+/**
+ * Load plugins given by name, module path or package name; plugin objects are kept as they are.
+ * A plugin module exports the plugin as its default export.
+ */
+export async function loadPlugins(specs: (string | DocPlugin)[] = [], baseDir = process.cwd()): Promise<DocPlugin[]> {
+  const plugins: DocPlugin[] = [];
+  for (const spec of specs) {
+    if (typeof spec !== 'string') {
+      plugins.push(spec);
+      continue;
+    }
+
+    const builtin = BUILTIN_PLUGINS.find(plugin => plugin.name === spec);
+    if (builtin) {
+      plugins.push(builtin);
+      continue;
+    }
+
+    const isPath = spec.startsWith('.') || path.isAbsolute(spec);
+    let plugin: unknown;
+    try {
+      const module = await import(isPath ? pathToFileURL(path.resolve(baseDir, spec)).href : spec);
+      plugin = module.default;
+    } catch (error) {
+      const known = BUILTIN_PLUGINS.map(plugin => `"${plugin.name}"`).join(', ');
+      throw new ConfigError(`Cannot load plugin "${spec}" (built-in plugins: ${known}): ${(error as Error).message}`);
+    }
+    if (typeof plugin !== 'object' || plugin === null || typeof (plugin as DocPlugin).name !== 'string') {
+      throw new ConfigError(`Plugin "${spec}" must export a plugin object with a "name" as its default export`);
+    }
+    plugins.push(plugin as DocPlugin);
+  }
+  return plugins;
+}
+
+/**
+ * Runs the hooks of a list of plugins. A failing hook is reported and skipped, leaving its input unchanged.
+ */
+export class PluginHost {
+  private plugins: DocPlugin[];
+  private logger: Logger;
+
+  /**
+   * Plugins may be given as objects or built-in names; other modules must be loaded with loadPlugins first
+   */
+  constructor(plugins: (string | DocPlugin)[] = [], logger: Logger = silentLogger) {
+    this.logger = logger;
+    this.plugins = plugins.map(spec => {
+      if (typeof spec !== 'string') {
+        return spec;
+      }
+      const builtin = BUILTIN_PLUGINS.find(plugin => plugin.name === spec);
+      if (!builtin) {
+        throw new ConfigError(`Plugin "${spec}" is not a built-in plugin; load it with loadPlugins first`);
+      }
+      return builtin;
+    });
+  }
+
+  /**
+   * Number of plugins
+   */
+  get size(): number {
+    return this.plugins.length;
+  }
+
+  /**
+   * Whether any plugin implements a hook
+   */
+  hasHook(hook: keyof DocPlugin): boolean {
+    return this.plugins.some(plugin => plugin[hook] !== undefined);
+  }
+
+  /**
+   * Names of the plugins that implement a hook
+   */
+  hookedBy(hook: keyof DocPlugin): string[] {
+    return this.plugins.filter(plugin => plugin[hook] !== undefined).map(plugin => plugin.name);
+  }
+
+  /**
+   * Whether every plugin accepts a discovered link
+   */
+  allowsUrl(url: string, referrer?: string): boolean {
+    return this.plugins.every(plugin => !plugin.filterUrl || this.run(plugin, 'filterUrl', url, () => plugin.filterUrl!(url, referrer), true));
+  }
+
+  /**
+   * Let every plugin edit a fetched page
+   */
+  afterFetch($: CheerioAPI, url: string): void {
+    for (const plugin of this.plugins) {
+      if (plugin.afterFetch) {
+        this.run(plugin, 'afterFetch', url, () => plugin.afterFetch!($, url), undefined);
+      }
+    }
+  }
+
+  /**
+   * Let every plugin add Turndown rules
+   */
+  turndownRules(turndown: TurndownService): void {
+    for (const plugin of this.plugins) {
+      if (plugin.turndownRules) {
+        this.run(plugin, 'turndownRules', '', () => plugin.turndownRules!(turndown), undefined);
+      }
+    }
+  }
+
+  /**
+   * Pass a page's Markdown through every plugin
+   */
+  afterMarkdown(markdown: string, url?: string): string {
+    return this.plugins.reduce((current, plugin) => plugin.afterMarkdown
+      ? this.run(plugin, 'afterMarkdown', url ?? '', () => plugin.afterMarkdown!(current, url), current)
+      : current, markdown);
+  }
+
+  /**
+   * Pass the content of a text file through every plugin
+   */
+  beforeWrite(content: string, file: string, url?: string): string {
+    return this.plugins.reduce((current, plugin) => plugin.beforeWrite
+      ? this.run(plugin, 'beforeWrite', file, () => plugin.beforeWrite!(current, file, url), current)
+      : current, content);
+  }
+
+  /**
+   * Pass a piece of a text file through every plugin; the page URL is given when the piece holds one page
+   */
+  beforeWriteChunk(chunk: string, file: string, url?: string): string {
+    return this.plugins.reduce((current, plugin) => plugin.beforeWriteChunk
+      ? this.run(plugin, 'beforeWriteChunk', file, () => plugin.beforeWriteChunk!(current, file, url), current)
+      : current, chunk);
+  }
+
+  /**
+   * Call a hook, falling back to a value if it throws
+   */
+  private run<T>(plugin: DocPlugin, hook: string, target: string, call: () => T, fallback: T): T {
+    try {
+      return call();
+    } catch (error) {
+      this.logger.warn(`Plugin "${plugin.name}" failed in ${hook}${target ? ` for ${target}` : ''}: ${(error as Error).message}`);
+      return fallback;
+    }
+  }
+}
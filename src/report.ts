@@ -0,0 +1,241 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CrawlRecord, CrawlReport, DuplicateMatch, HostSummary } from './interfaces.js';
+
+const MATCH_DESCRIPTIONS: Record<DuplicateMatch, string> = {
+  url: 'Canonical or redirect URL',
+  identical: 'Identical content',
+  similar: 'Near-identical content'
+};
+
+/**
+ * Writes the crawl report as JSON, plus an optional human-readable version
+ */
+export class ReportWriter {
+  /**
+   * Combine the reports of several crawls exported together; a URL reached by several crawls keeps its best outcome
+   */
+  static merge(reports: CrawlReport[]): CrawlReport {
+    const rank = { exported: 0, failed: 1, queued: 2, skipped: 3 };
+    const byUrl = new Map<string, CrawlRecord>();
+    for (const record of reports.flatMap(report => report.urls)) {
+      const existing = byUrl.get(record.url);
+      if (!existing || rank[record.outcome] < rank[existing.outcome]) {
+        byUrl.set(record.url, record);
+      }
+    }
+    const urls = [...byUrl.values()];
+    const brokenLinks = reports.flatMap(report => report.brokenLinks)
+      .filter(link => byUrl.get(link.url)?.outcome === 'failed');
+    const redirects = reports.flatMap(report => report.redirects)
+      .filter((redirect, i, all) => all.findIndex(other => other.url === redirect.url) === i);
+    const duplicates = ReportWriter.listDuplicates(urls);
+
+    const startedAt = reports.map(report => report.startedAt).sort()[0];
+    const finishedAt = reports.map(report => report.finishedAt).sort().reverse()[0];
+    return {
+      seedUrl: reports.map(report => report.seedUrl).join(', '),
+      startedAt,
+      finishedAt,
+      durationMs: new Date(finishedAt).getTime() - new Date(startedAt).getTime(),
+      stopReason: reports.find(report => report.stopReason)?.stopReason,
+      summary: {
+        total: urls.length,
+        exported: urls.filter(record => record.outcome === 'exported').length,
+        failed: urls.filter(record => record.outcome === 'failed').length,
+        skipped: urls.filter(record => record.outcome === 'skipped').length,
+        redirected: redirects.length,
+        merged: duplicates.length
+      },
+      hosts: ReportWriter.summarizeHosts(urls),
+      duplicates,
+      brokenLinks: brokenLinks.filter((link, i, all) => all.findIndex(other => other.url === link.url) === i),
+      redirects,
+      urls
+    };
+  }
+
+  /**
+   * URLs merged into another page, so users can check what was left out of the export
+   */
+  static listDuplicates(urls: CrawlRecord[]): CrawlReport['duplicates'] {
+    return urls
+      .filter(record => record.skipReason === 'duplicate' && record.duplicateOf)
+      .map(record => ({ url: record.url, duplicateOf: record.duplicateOf!, match: record.duplicateMatch }));
+  }
+
+  /**
+   * Count the outcomes of the URLs of each host the crawl fetched pages from, most exported pages first
+   */
+  static summarizeHosts(urls: CrawlRecord[]): HostSummary[] {
+    const hosts = new Map<string, HostSummary>();
+    for (const record of urls) {
+      let host: string;
+      try {
+        host = new URL(record.url).host;
+      } catch (e) {
+        continue;
+      }
+      const summary = hosts.get(host) ?? { host, exported: 0, failed: 0, skipped: 0 };
+      if (record.outcome !== 'queued') {
+        summary[record.outcome]++;
+      }
+      hosts.set(host, summary);
+    }
+    return [...hosts.values()]
+      .filter(summary => summary.exported + summary.failed > 0)
+      .sort((a, b) => b.exported - a.exported || a.host.localeCompare(b.host));
+  }
+
+  /**
+   * Write crawl-report.json, and crawl-report.md or crawl-report.html if requested
+   */
+  async write(report: CrawlReport, outputDir: string, format?: 'markdown' | 'html'): Promise<string[]> {
+    const jsonPath = path.join(outputDir, 'crawl-report.json');
+    await fs.writeFile(jsonPath, JSON.stringify(report, null, 2), 'utf-8');
+    const paths = [jsonPath];
+
+    if (format === 'markdown') {
+      const markdownPath = path.join(outputDir, 'crawl-report.md');
+      await fs.writeFile(markdownPath, this.toMarkdown(report), 'utf-8');
+      paths.push(markdownPath);
+    } else if (format === 'html') {
+      const htmlPath = path.join(outputDir, 'crawl-report.html');
+      await fs.writeFile(htmlPath, this.toHtml(report), 'utf-8');
+      paths.push(htmlPath);
+    }
+
+    return paths;
+  }
+
+  /**
+   * Render the report as Markdown
+   */
+  private toMarkdown(report: CrawlReport): string {
+    const cell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|');
+    let content = `# Crawl Report\n\n`;
+    content += `- Seed: ${report.seedUrl}\n`;
+    content += `- Started: ${report.startedAt}\n`;
+    content += `- Duration: ${(report.durationMs / 1000).toFixed(1)}s\n`;
+    if (report.stopReason) {
+      content += `- Stopped early: ${report.stopReason}\n`;
+    }
+    content += `- URLs: ${report.summary.total} total, ${report.summary.exported} exported, ${report.summary.failed} failed, `;
+    content += `${report.summary.skipped} skipped, ${report.summary.redirected} redirected, ${report.summary.merged} merged\n\n`;
+
+    if (report.hosts.length > 1) {
+      content += `## Hosts\n\n`;
+      content += '| Host | Exported | Failed | Skipped |\n|---|---|---|---|\n';
+      for (const host of report.hosts) {
+        content += `| ${cell(host.host)} | ${host.exported} | ${host.failed} | ${host.skipped} |\n`;
+      }
+      content += '\n';
+    }
+
+    content += `## Broken Links\n\n`;
+    if (report.brokenLinks.length === 0) {
+      content += 'None.\n\n';
+    } else {
+      content += '| Status | URL | Error | Linked from |\n|---|---|---|---|\n';
+      for (const link of report.brokenLinks) {
+        content += `| ${link.status || 'ERR'} | ${cell(link.url)} | ${cell(link.error)} | ${cell(link.referrers.join('<br>'))} |\n`;
+      }
+      content += '\n';
+    }
+
+    content += `## Merged Duplicates\n\n`;
+    if (report.duplicates.length === 0) {
+      content += 'None.\n\n';
+    } else {
+      content += '| URL | Merged into | Match |\n|---|---|---|\n';
+      for (const duplicate of report.duplicates) {
+        content += `| ${cell(duplicate.url)} | ${cell(duplicate.duplicateOf)} | ${cell(duplicate.match && MATCH_DESCRIPTIONS[duplicate.match])} |\n`;
+      }
+      content += '\n';
+    }
+
+    content += `## Redirects\n\n`;
+    if (report.redirects.length === 0) {
+      content += 'None.\n\n';
+    } else {
+      content += '| URL | Final URL |\n|---|---|\n';
+      for (const redirect of report.redirects) {
+        content += `| ${cell(redirect.url)} | ${cell(redirect.finalUrl)} |\n`;
+      }
+      content += '\n';
+    }
+
+    content += `## All URLs\n\n`;
+    content += '| Outcome | Status | Depth | Time (ms) | URL | Skip reason | Rule | Referrer |\n|---|---|---|---|---|---|---|---|\n';
+    for (const record of report.urls) {
+      content += `| ${record.outcome} | ${cell(record.status)} | ${record.depth} | ${cell(record.durationMs)} | ${cell(record.url)} | `;
+      content += `${cell(record.duplicateOf ? `duplicate of ${record.duplicateOf}` : record.skipReason)} | ${cell(record.rule)} | ${cell(record.referrers[0])} |\n`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Render the report as a standalone HTML page
+   */
+  private toHtml(report: CrawlReport): string {
+    const escape = (value: unknown) => String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    // Only web URLs become links; others, e.g. javascript: links found on crawled pages, stay text
+    const link = (url: string) => /^https?:\/\//i.test(url) ? `<a href="${escape(url)}">${escape(url)}</a>` : escape(url);
+    const row = (record: CrawlRecord) => `<tr class="${record.outcome}">` +
+      `<td>${record.outcome}</td><td>${escape(record.status)}</td><td>${record.depth}</td>` +
+      `<td>${escape(record.durationMs)}</td><td>${link(record.url)}</td>` +
+      `<td>${record.finalUrl ? link(record.finalUrl) : ''}</td><td>${record.duplicateOf ? `duplicate of ${link(record.duplicateOf)}` : escape(record.skipReason ?? record.error)}</td><td>${escape(record.rule)}</td>` +
+      `<td>${record.referrers[0] ? link(record.referrers[0]) : ''}</td></tr>`;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Crawl Report: ${escape(report.seedUrl)}</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9em; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; }
+tr.failed { background: #fdecea; }
+tr.skipped { color: #777; }
+</style>
+</head>
+<body>
+<h1>Crawl Report</h1>
+<p>Seed: ${link(report.seedUrl)}<br>
+Started: ${escape(report.startedAt)}<br>
+Duration: ${(report.durationMs / 1000).toFixed(1)}s${report.stopReason ? `<br>Stopped early: ${escape(report.stopReason)}` : ''}</p>
+<p>${report.summary.total} URLs: ${report.summary.exported} exported, ${report.summary.failed} failed,
+${report.summary.skipped} skipped, ${report.summary.redirected} redirected, ${report.summary.merged} merged</p>
+${report.hosts.length > 1 ? `<h2>Hosts</h2>
+<table>
+<tr><th>Host</th><th>Exported</th><th>Failed</th><th>Skipped</th></tr>
+${report.hosts.map(host => `<tr><td>${escape(host.host)}</td><td>${host.exported}</td><td>${host.failed}</td><td>${host.skipped}</td></tr>`).join('\n')}
+</table>
+` : ''}<h2>Broken Links</h2>
+<table>
+<tr><th>Status</th><th>URL</th><th>Error</th><th>Linked from</th></tr>
+${report.brokenLinks.map(broken => `<tr><td>${broken.status || 'ERR'}</td><td>${link(broken.url)}</td>` +
+  `<td>${escape(broken.error)}</td><td>${broken.referrers.map(link).join('<br>')}</td></tr>`).join('\n')}
+</table>
+<h2>Merged Duplicates</h2>
+<table>
+<tr><th>URL</th><th>Merged into</th><th>Match</th></tr>
+${report.duplicates.map(duplicate => `<tr><td>${link(duplicate.url)}</td><td>${link(duplicate.duplicateOf)}</td>` +
+  `<td>${duplicate.match ? MATCH_DESCRIPTIONS[duplicate.match] : ''}</td></tr>`).join('\n')}
+</table>
+<h2>All URLs</h2>
+<table>
+<tr><th>Outcome</th><th>Status</th><th>Depth</th><th>Time (ms)</th><th>URL</th><th>Final URL</th><th>Reason</th><th>Rule</th><th>Referrer</th></tr>
+${report.urls.map(row).join('\n')}
+</table>
+</body>
+</html>
+`;
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+import type { Fetcher } from './fetcher.js';
+import { RobotsManager, RobotsRules } from './robots.js';
+
+// Answers every request with the given status and body, or fails like an unreachable server
+const fetcher = (status: number | null, body = ''): Fetcher => ({
+  remote: true,
+  fetch: async () => {
+    if (status === null) {
+      throw new Error('connect ECONNREFUSED');
+    }
+    return new Response(body, { status });
+  }
+});
+
+describe('RobotsRules', () => {
+  test('allows everything without rules', () => {
+    const rules = RobotsRules.parse('', 'DocCrawler');
+    expect(rules.isAllowed('https://example.com/docs/')).toBe(true);
+    expect(rules.crawlDelay).toBeUndefined();
+  });
+
+  test('uses the wildcard group when no group names the agent', () => {
+    const rules = RobotsRules.parse('User-agent: *\nDisallow: /private/\n\nUser-agent: OtherBot\nDisallow: /', 'DocCrawler');
+    expect(rules.isAllowed('https://example.com/docs/')).toBe(true);
+    expect(rules.isAllowed('https://example.com/private/page')).toBe(false);
+  });
+
+  test('prefers the group naming the agent over the wildcard group', () => {
+    const body = [
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: DocCrawler',
+      'Disallow: /drafts/',
+      'Crawl-delay: 1.5'
+    ].join('\n');
+    const rules = RobotsRules.parse(body, 'DocCrawler');
+    expect(rules.isAllowed('https://example.com/docs/')).toBe(true);
+    expect(rules.isAllowed('https://example.com/drafts/new')).toBe(false);
+    expect(rules.crawlDelay).toBe(1500);
+  });
+
+  test('caps the Crawl-delay', () => {
+    expect(RobotsRules.parse('User-agent: *\nCrawl-delay: 86400', 'DocCrawler').crawlDelay).toBe(30000);
+  });
+
+  test('shares rules between consecutive user-agent lines', () => {
+    const rules = RobotsRules.parse('User-agent: OtherBot\nUser-agent: DocCrawler\nDisallow: /tmp', 'DocCrawler');
+    expect(rules.isAllowed('https://example.com/tmp/file')).toBe(false);
+  });
+
+  test('lets the longest matching rule win, and Allow win ties', () => {
+    const body = [
+      'User-agent: *',
+      'Disallow: /docs/',
+      'Allow: /docs/public/',
+      'Disallow: /page',
+      'Allow: /page'
+    ].join('\n');
+    const rules = RobotsRules.parse(body, 'DocCrawler');
+    expect(rules.isAllowed('https://example.com/docs/internal')).toBe(false);
+    expect(rules.isAllowed('https://example.com/docs/public/intro')).toBe(true);
+    expect(rules.isAllowed('https://example.com/page')).toBe(true);
+  });
+
+  test('supports * wildcards and $ anchors', () => {
+    const rules = RobotsRules.parse('User-agent: *\nDisallow: /*.pdf$\nDisallow: /search*q=', 'DocCrawler');
+    expect(rules.isAllowed('https://example.com/files/guide.pdf')).toBe(false);
+    expect(rules.isAllowed('https://example.com/files/guide.pdf?download=1')).toBe(true);
+    expect(rules.isAllowed('https://example.com/search?q=install')).toBe(false);
+    expect(rules.isAllowed('https://example.com/search')).toBe(true);
+  });
+
+  test('ignores empty Disallow lines and comments', () => {
+    const rules = RobotsRules.parse('User-agent: * # everyone\nDisallow:\nDisallow: /a # not /b', 'DocCrawler');
+    expect(rules.isAllowed('https://example.com/b')).toBe(true);
+    expect(rules.isAllowed('https://example.com/a/1')).toBe(false);
+  });
+
+  test('collects sitemaps from every group', () => {
+    const body = 'Sitemap: https://example.com/sitemap.xml\nUser-agent: OtherBot\nSitemap: https://example.com/docs.xml';
+    expect(RobotsRules.parse(body, 'DocCrawler').sitemaps).toEqual([
+      'https://example.com/sitemap.xml',
+      'https://example.com/docs.xml'
+    ]);
+  });
+});
+
+describe('RobotsManager', () => {
+  const manager = (status: number | null, body = '') => new RobotsManager('TestAgent', 'DocCrawler', 1000, fetcher(status, body));
+
+  test('applies the rules of a robots.txt file', async () => {
+    const rules = await manager(200, 'User-agent: *\nDisallow: /private/').getRules('https://example.com/docs/');
+    expect(rules.isAllowed('https://example.com/docs/')).toBe(true);
+    expect(rules.isAllowed('https://example.com/private/a')).toBe(false);
+  });
+
+  test('allows everything when robots.txt is missing', async () => {
+    for (const status of [401, 403, 404]) {
+      expect((await manager(status).getRules('https://example.com/')).isAllowed('https://example.com/docs/')).toBe(true);
+    }
+  });
+
+  test('disallows everything on server errors and unreachable servers', async () => {
+    for (const status of [500, 503, null]) {
+      expect((await manager(status).getRules('https://example.com/')).isAllowed('https://example.com/docs/')).toBe(false);
+    }
+  });
+});
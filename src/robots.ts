@@ -0,0 +1,202 @@
+import { Fetcher, HttpFetcher } from './fetcher.js';
+
+const MAX_CRAWL_DELAY = 30000; // Upper bound for a robots.txt Crawl-delay, in milliseconds
+
+/**
+ * A single Allow/Disallow rule from a robots.txt group
+ */
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+/**
+ * Rules that apply to our user agent for a single host
+ */
+export class RobotsRules {
+  private rules: RobotsRule[];
+  public readonly crawlDelay?: number; // Crawl-delay in milliseconds
+  public readonly sitemaps: string[];
+
+  constructor(rules: RobotsRule[] = [], crawlDelay?: number, sitemaps: string[] = []) {
+    this.rules = rules;
+    this.crawlDelay = crawlDelay;
+    this.sitemaps = sitemaps;
+  }
+
+  /**
+   * Rules that disallow every path, for a host whose robots.txt could not be read
+   */
+  static disallowAll(): RobotsRules {
+    return new RobotsRules([{ allow: false, pattern: '/', regex: /^\// }]);
+  }
+
+  /**
+   * Parse a robots.txt body, keeping only the group that best matches the user agent
+   */
+  static parse(body: string, agentToken: string): RobotsRules {
+    const agent = agentToken.toLowerCase();
+    const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number }[] = [];
+    const sitemaps: string[] = [];
+    let current: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number } | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of body.split(/\r?\n/)) {
+      const line = rawLine.split('#')[0].trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive user-agent lines share the same group
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      }
+
+      lastWasAgent = false;
+
+      if (field === 'sitemap') {
+        if (value) {
+          sitemaps.push(value);
+        }
+      } else if (current && (field === 'allow' || field === 'disallow')) {
+        // An empty Disallow means everything is allowed
+        if (value) {
+          current.rules.push({ allow: field === 'allow', pattern: value, regex: RobotsRules.toRegex(value) });
+        }
+      } else if (current && field === 'crawl-delay') {
+        const seconds = parseFloat(value);
+        if (!isNaN(seconds) && seconds >= 0) {
+          // A huge delay would stall the crawl of that host for good
+          current.crawlDelay = Math.min(seconds * 1000, MAX_CRAWL_DELAY);
+        }
+      }
+    }
+
+    // Prefer the most specific group naming our agent, then fall back to the wildcard group
+    let selected: typeof current = null;
+    let selectedLength = -1;
+    for (const group of groups) {
+      for (const name of group.agents) {
+        if (name !== '*' && agent.includes(name) && name.length > selectedLength) {
+          selected = group;
+          selectedLength = name.length;
+        }
+      }
+    }
+    if (!selected) {
+      selected = groups.find(group => group.agents.includes('*')) ?? null;
+    }
+
+    return new RobotsRules(selected?.rules ?? [], selected?.crawlDelay, sitemaps);
+  }
+
+  /**
+   * Convert a robots.txt path pattern (supporting * and $) into a regular expression
+   */
+  private static toRegex(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp('^' + body + (anchored ? '$' : ''));
+  }
+
+  /**
+   * Check whether a URL may be crawled; the longest matching rule wins and Allow wins ties
+   */
+  isAllowed(url: string): boolean {
+    let target: string;
+    try {
+      const parsed = new URL(url);
+      target = parsed.pathname + parsed.search;
+    } catch (e) {
+      return true;
+    }
+
+    let match: RobotsRule | null = null;
+    for (const rule of this.rules) {
+      if (!rule.regex.test(target)) {
+        continue;
+      }
+      if (!match ||
+          rule.pattern.length > match.pattern.length ||
+          (rule.pattern.length === match.pattern.length && rule.allow && !match.allow)) {
+        match = rule;
+      }
+    }
+
+    return match ? match.allow : true;
+  }
+}
+
+/**
+ * Fetches and caches robots.txt rules per origin
+ */
+export class RobotsManager {
+  private cache = new Map<string, Promise<RobotsRules>>();
+  private userAgent: string;
+  private agentToken: string;
+  private timeout: number;
+  private fetcher: Fetcher;
+
+  constructor(userAgent: string, agentToken: string, timeout: number, fetcher: Fetcher = new HttpFetcher()) {
+    this.userAgent = userAgent;
+    this.agentToken = agentToken;
+    this.timeout = timeout;
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Get the rules for the origin of a URL, fetching robots.txt on first use
+   */
+  getRules(url: string): Promise<RobotsRules> {
+    const origin = new URL(url).origin;
+    let rules = this.cache.get(origin);
+    if (!rules) {
+      rules = this.fetchRules(origin);
+      this.cache.set(origin, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Download and parse robots.txt. As in RFC 9309, a missing file (4xx) allows everything,
+   * while a server error or an unreachable server disallows everything
+   */
+  private async fetchRules(origin: string): Promise<RobotsRules> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetcher.fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': this.userAgent },
+        signal: controller.signal
+      });
+
+      if (response.status >= 500) {
+        return RobotsRules.disallowAll();
+      }
+      if (!response.ok) {
+        return new RobotsRules();
+      }
+
+      return RobotsRules.parse(await response.text(), this.agentToken);
+    } catch (error) {
+      return RobotsRules.disallowAll();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
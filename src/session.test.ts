@@ -0,0 +1,143 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CookieJar, parseHeader, RequestSession, resolveAuthorization } from './session.js';
+
+const env = { DOC_EXPORT_USERNAME: 'user', DOC_EXPORT_PASSWORD: 'secret', DOC_EXPORT_TOKEN: 'token', OTHER_TOKEN: 'other' };
+
+describe('parseHeader', () => {
+  test('parses headers with and without a host', () => {
+    expect(parseHeader('X-Api-Key: abc: def')).toEqual({ host: undefined, name: 'X-Api-Key', value: 'abc: def' });
+    expect(parseHeader('Docs.Example.com Accept-Language: en')).toEqual({ host: 'docs.example.com', name: 'Accept-Language', value: 'en' });
+    expect(parseHeader('*.example.com X-Token:')).toEqual({ host: '*.example.com', name: 'X-Token', value: '' });
+  });
+
+  test('rejects text that is not a header', () => {
+    expect(() => parseHeader('no header here')).toThrow('Invalid header');
+  });
+});
+
+describe('resolveAuthorization', () => {
+  test('reads basic and bearer credentials from the environment', () => {
+    expect(resolveAuthorization('basic', env)).toBe(`Basic ${Buffer.from('user:secret').toString('base64')}`);
+    expect(resolveAuthorization('bearer', env)).toBe('Bearer token');
+    expect(resolveAuthorization('Bearer:OTHER_TOKEN', env)).toBe('Bearer other');
+  });
+
+  test('fails on a missing variable or an unknown scheme', () => {
+    expect(() => resolveAuthorization('bearer:MISSING', env)).toThrow('MISSING');
+    expect(() => resolveAuthorization('digest', env)).toThrow('Unknown auth scheme');
+  });
+});
+
+describe('CookieJar', () => {
+  const dir = path.join(os.tmpdir(), `session-test-${process.pid}`);
+  afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+  test('sends cookies to matching hosts and paths, longest path first', () => {
+    const jar = new CookieJar();
+    jar.store('https://docs.example.com/guide/intro', [
+      'session=1; Path=/',
+      'guide=2',
+      'wide=3; Domain=example.com; Path=/'
+    ]);
+    expect(jar.header('https://docs.example.com/guide/setup')).toBe('guide=2; session=1; wide=3');
+    expect(jar.header('https://docs.example.com/api')).toBe('session=1; wide=3');
+    expect(jar.header('https://api.example.com/')).toBe('wide=3');
+    expect(jar.header('https://other.com/')).toBeNull();
+  });
+
+  test('keeps secure cookies off plain http', () => {
+    const jar = new CookieJar();
+    jar.store('https://example.com/', ['token=1; Secure; Path=/', 'theme=dark; Path=/']);
+    expect(jar.header('https://example.com/')).toBe('token=1; theme=dark');
+    expect(jar.header('http://example.com/')).toBe('theme=dark');
+  });
+
+  test('rejects cookies for other domains and drops expired ones', () => {
+    const jar = new CookieJar();
+    jar.store('https://docs.example.com/', ['evil=1; Domain=other.com', 'old=1; Path=/; Max-Age=0']);
+    expect(jar.size).toBe(0);
+    jar.store('https://docs.example.com/', ['id=1; Path=/', 'id=2; Path=/']);
+    expect(jar.header('https://docs.example.com/')).toBe('id=2');
+    jar.store('https://docs.example.com/', ['id=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT']);
+    expect(jar.header('https://docs.example.com/')).toBeNull();
+  });
+
+  test('loads Netscape cookie files', async () => {
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, 'cookies.txt');
+    await fs.writeFile(file, [
+      '# Netscape HTTP Cookie File',
+      '.example.com\tTRUE\t/\tTRUE\t0\tsession\tabc',
+      '#HttpOnly_docs.example.com\tFALSE\t/docs\tFALSE\t0\tprefs\tx',
+      'expired.com\tFALSE\t/\tFALSE\t1\tgone\t1'
+    ].join('\n'));
+    const jar = await CookieJar.load(file);
+    expect(jar.header('https://docs.example.com/docs/intro')).toBe('prefs=x; session=abc');
+    expect(jar.header('https://api.example.com/docs')).toBe('session=abc');
+    expect(jar.header('https://expired.com/')).toBeNull();
+  });
+
+  test('loads JSON cookie exports and browser storage states', async () => {
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, 'state.json');
+    await fs.writeFile(file, JSON.stringify({
+      cookies: [{ name: 'sid', value: '42', domain: 'docs.example.com', path: '/', secure: false, expires: -1 }]
+    }));
+    const jar = await CookieJar.load(file);
+    expect(jar.header('http://docs.example.com/')).toBe('sid=42');
+    expect(jar.header('http://api.example.com/')).toBeNull();
+  });
+});
+
+describe('RequestSession', () => {
+  test('sends credentials and unscoped headers only to hosts in scope', async () => {
+    const session = new RequestSession({
+      auth: 'bearer',
+      headers: ['X-All: 1', 'cdn.example.net X-Cdn: 2'],
+      sites: ['https://docs.example.com/'],
+      userAgent: 'TestAgent'
+    }, env);
+    const inScope = await session.headers('https://docs.example.com/page');
+    expect(inScope.get('Authorization')).toBe('Bearer token');
+    expect(inScope.get('X-All')).toBe('1');
+    expect(inScope.get('User-Agent')).toBe('TestAgent');
+
+    const outOfScope = await session.headers('https://cdn.example.net/image.png');
+    expect(outOfScope.get('Authorization')).toBeNull();
+    expect(outOfScope.get('X-All')).toBeNull();
+    expect(outOfScope.get('X-Cdn')).toBe('2');
+  });
+
+  test('keeps credentials off plain http when a site is crawled over https', async () => {
+    const session = new RequestSession({ auth: 'bearer', sites: ['https://docs.example.com/'], allowedDomains: ['*.example.com'] }, env);
+    expect(session.httpsOnly).toBe(true);
+    expect(session.inScope('https://api.example.com/')).toBe(true);
+    expect(session.inScope('http://docs.example.com/')).toBe(false);
+    expect((await session.headers('http://docs.example.com/')).get('Authorization')).toBeNull();
+  });
+
+  test('sends credentials over http to sites crawled over http', () => {
+    const session = new RequestSession({ auth: 'bearer', sites: ['http://localhost:3000/', 'https://docs.example.com/'] }, env);
+    expect(session.inScope('http://localhost:3000/docs')).toBe(true);
+    expect(session.inScope('http://docs.example.com/')).toBe(false);
+  });
+
+  test('limits the scope to the auth domains when given', () => {
+    const session = new RequestSession({ sites: ['https://docs.example.com/'], authDomains: ['login.example.com'] }, env);
+    expect(session.scope).toEqual(['login.example.com']);
+    expect(session.inScope('https://docs.example.com/')).toBe(false);
+    expect(session.inScope('https://login.example.com/')).toBe(true);
+  });
+
+  test('picks the proxy by scheme and skips NO_PROXY hosts', () => {
+    const session = new RequestSession({}, { HTTPS_PROXY: 'http://proxy:8080', NO_PROXY: 'localhost, .internal.example.com' });
+    expect(session.proxyFor('https://docs.example.com/')).toBe('http://proxy:8080');
+    expect(session.proxyFor('http://docs.example.com/')).toBeUndefined();
+    expect(session.proxyFor('https://localhost/')).toBeUndefined();
+    expect(session.proxyFor('https://wiki.internal.example.com/')).toBeUndefined();
+    expect(new RequestSession({ proxy: 'http://other:3128', noProxy: [] }, {}).proxyFor('http://a.com/')).toBe('http://other:3128');
+  });
+});
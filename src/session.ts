@@ -0,0 +1,407 @@
+import * as fs from 'fs/promises';
+import { matchesDomain } from './urls.js';
+
+// Environment variables read by --auth when it does not name its own
+export const AUTH_ENV = {
+  username: 'DOC_EXPORT_USERNAME',
+  password: 'DOC_EXPORT_PASSWORD',
+  token: 'DOC_EXPORT_TOKEN'
+};
+
+const HEADER_PATTERN = /^(?:(\S*[^:\s])\s+)?([!#$%&'*+.^_`|~\w-]+):\s*(.*)$/;
+
+/**
+ * A request header, sent to one host (and its subdomains with "*.") or to every host in scope
+ */
+export interface HeaderRule {
+  host?: string;
+  name: string;
+  value: string;
+}
+
+/**
+ * A cookie from a cookie file or a Set-Cookie response header
+ */
+export interface Cookie {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean; // Sent to the exact host only, not its subdomains
+  path: string;
+  secure: boolean;
+  expires?: number;  // Expiry time in milliseconds; session cookies have none
+}
+
+/**
+ * Options for the requests sent to live servers
+ */
+export interface SessionOptions {
+  userAgent?: string;
+  headers?: string[];     // "Name: value" or "host Name: value"
+  auth?: string;          // "basic", "bearer", "basic:USER_VAR:PASS_VAR" or "bearer:TOKEN_VAR"
+  authDomains?: string[]; // Domains that receive credentials (default: the sites and allowedDomains)
+  allowedDomains?: string[];
+  sites?: string[];       // Seed URLs of the crawl
+  cookieFile?: string;
+  proxy?: string;
+  noProxy?: string[];
+}
+
+/**
+ * Parse a header option: "Name: value", or "host Name: value" to send it to one host only
+ */
+export function parseHeader(spec: string): HeaderRule {
+  const match = spec.trim().match(HEADER_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid header "${spec}", expected "Name: value" or "host Name: value"`);
+  }
+  const [, host, name, value] = match;
+  return { host: host?.toLowerCase(), name, value };
+}
+
+/**
+ * Build the Authorization header for an auth option, reading the credentials from the environment
+ */
+export function resolveAuthorization(auth: string, env: NodeJS.ProcessEnv = process.env): string {
+  const [scheme, ...names] = auth.split(':').map(part => part.trim());
+  const read = (name: string) => {
+    const value = env[name];
+    if (!value) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    return value;
+  };
+
+  switch (scheme.toLowerCase()) {
+    case 'basic': {
+      const [userVar = AUTH_ENV.username, passVar = AUTH_ENV.password] = names;
+      const credentials = `${read(userVar)}:${env[passVar] ?? ''}`;
+      return `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+    case 'bearer':
+      return `Bearer ${read(names[0] || AUTH_ENV.token)}`;
+    default:
+      throw new Error(`Unknown auth scheme "${scheme}", expected "basic" or "bearer"`);
+  }
+}
+
+/**
+ * Cookies loaded from a Netscape cookies.txt or JSON export, updated from Set-Cookie responses
+ */
+export class CookieJar {
+  private cookies: Cookie[] = [];
+
+  /**
+   * Read a cookie file; JSON may be an array of cookies or a browser storage state with a cookies array
+   */
+  static async load(file: string): Promise<CookieJar> {
+    const jar = new CookieJar();
+    const text = await fs.readFile(file, 'utf-8');
+    jar.cookies = text.trimStart().startsWith('[') || text.trimStart().startsWith('{')
+      ? CookieJar.parseJson(JSON.parse(text))
+      : CookieJar.parseNetscape(text);
+    return jar;
+  }
+
+  get size(): number {
+    return this.cookies.length;
+  }
+
+  /**
+   * Cookie header for a request, or null when no cookie applies
+   */
+  header(url: string): string | null {
+    const target = new URL(url);
+    const now = Date.now();
+    this.cookies = this.cookies.filter(cookie => cookie.expires === undefined || cookie.expires > now);
+
+    const matching = this.cookies
+      .filter(cookie => this.domainMatches(cookie, target.hostname)
+        && this.pathMatches(cookie.path, target.pathname)
+        && (!cookie.secure || target.protocol === 'https:'))
+      .sort((a, b) => b.path.length - a.path.length);
+    return matching.length > 0 ? matching.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : null;
+  }
+
+  /**
+   * Store the Set-Cookie headers of a response; cookies for other domains are rejected
+   */
+  store(url: string, setCookies: string[]): void {
+    const target = new URL(url);
+    for (const line of setCookies) {
+      const cookie = this.parseSetCookie(line, target);
+      if (!cookie) {
+        continue;
+      }
+      this.cookies = this.cookies.filter(existing => existing.name !== cookie.name
+        || existing.domain !== cookie.domain
+        || existing.path !== cookie.path);
+      if (cookie.expires === undefined || cookie.expires > Date.now()) {
+        this.cookies.push(cookie);
+      }
+    }
+  }
+
+  private parseSetCookie(line: string, target: URL): Cookie | null {
+    const [pair, ...attributes] = line.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      return null;
+    }
+
+    const hostname = target.hostname.toLowerCase();
+    const defaultPath = target.pathname.slice(0, target.pathname.lastIndexOf('/')) || '/';
+    const cookie: Cookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: hostname,
+      hostOnly: true,
+      path: defaultPath,
+      secure: false
+    };
+
+    let maxAge: number | undefined;
+    for (const attribute of attributes) {
+      const [key, ...rest] = attribute.split('=');
+      const value = rest.join('=').trim();
+      switch (key.trim().toLowerCase()) {
+        case 'domain': {
+          const domain = value.replace(/^\./, '').toLowerCase();
+          if (domain && domain !== hostname) {
+            if (!hostname.endsWith(`.${domain}`)) {
+              return null;
+            }
+            cookie.domain = domain;
+          }
+          cookie.hostOnly = !domain;
+          break;
+        }
+        case 'path':
+          cookie.path = value.startsWith('/') ? value : defaultPath;
+          break;
+        case 'secure':
+          cookie.secure = true;
+          break;
+        case 'max-age':
+          maxAge = parseInt(value);
+          break;
+        case 'expires': {
+          const expires = Date.parse(value);
+          if (!isNaN(expires)) {
+            cookie.expires = expires;
+          }
+          break;
+        }
+      }
+    }
+    // Max-Age wins over Expires
+    if (maxAge !== undefined && !isNaN(maxAge)) {
+      cookie.expires = Date.now() + maxAge * 1000;
+    }
+    return cookie;
+  }
+
+  private domainMatches(cookie: Cookie, hostname: string): boolean {
+    hostname = hostname.toLowerCase();
+    return cookie.hostOnly
+      ? hostname === cookie.domain
+      : hostname === cookie.domain || hostname.endsWith(`.${cookie.domain}`);
+  }
+
+  private pathMatches(cookiePath: string, requestPath: string): boolean {
+    return requestPath === cookiePath
+      || (requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'));
+  }
+
+  /**
+   * Tab-separated lines: domain, include subdomains, path, secure, expiry (seconds), name, value
+   */
+  private static parseNetscape(text: string): Cookie[] {
+    const cookies: Cookie[] = [];
+    for (let line of text.split(/\r?\n/)) {
+      // curl marks HttpOnly cookies with a prefix on the domain
+      line = line.replace(/^#HttpOnly_/, '');
+      if (!line.trim() || line.startsWith('#')) {
+        continue;
+      }
+      const fields = line.split('\t');
+      if (fields.length < 7) {
+        continue;
+      }
+      const [domain, subdomains, cookiePath, secure, expires, name, ...value] = fields;
+      const expiry = parseInt(expires);
+      cookies.push({
+        name,
+        value: value.join('\t'),
+        domain: domain.replace(/^\./, '').toLowerCase(),
+        hostOnly: subdomains.toUpperCase() !== 'TRUE',
+        path: cookiePath || '/',
+        secure: secure.toUpperCase() === 'TRUE',
+        expires: expiry > 0 ? expiry * 1000 : undefined
+      });
+    }
+    return cookies;
+  }
+
+  /**
+   * Cookies exported by browser extensions or Playwright/Puppeteer; expiry is in seconds
+   */
+  private static parseJson(data: unknown): Cookie[] {
+    const list = Array.isArray(data) ? data : (data as { cookies?: unknown })?.cookies;
+    if (!Array.isArray(list)) {
+      throw new Error('Expected an array of cookies');
+    }
+    return list.filter(item => item?.name && item.domain !== undefined).map(item => {
+      const expiry = Number(item.expirationDate ?? item.expires);
+      const domain = String(item.domain);
+      return {
+        name: String(item.name),
+        value: String(item.value ?? ''),
+        domain: domain.replace(/^\./, '').toLowerCase(),
+        hostOnly: item.hostOnly ?? !domain.startsWith('.'),
+        path: item.path || '/',
+        secure: Boolean(item.secure),
+        expires: expiry > 0 ? expiry * 1000 : undefined
+      };
+    });
+  }
+}
+
+/**
+ * Adds the configured User-Agent, headers, credentials and cookies to requests, and picks their proxy.
+ * Credentials, cookies and unscoped headers only go to hosts in scope: the domains given for auth,
+ * or else the crawled sites and allowed domains. Once a site is crawled over https, they are only sent
+ * over https, except to the hosts of sites crawled over plain http.
+ */
+export class RequestSession {
+  private userAgent?: string;
+  private rules: HeaderRule[];
+  private authorization?: string;
+  private authDomains?: string[];
+  private sites: string[];
+  private plainHosts: string[] = []; // Hosts of sites crawled over plain http
+  private secure = false;             // Whether a site is crawled over https
+  private jar?: Promise<CookieJar>;
+  private proxy?: string;
+  private envProxy: Record<string, string | undefined>;
+  private noProxy: string[];
+
+  constructor(options: SessionOptions = {}, env: NodeJS.ProcessEnv = process.env) {
+    this.userAgent = options.userAgent;
+    this.rules = (options.headers ?? []).map(parseHeader);
+    this.authorization = options.auth ? resolveAuthorization(options.auth, env) : undefined;
+    this.authDomains = options.authDomains?.length ? options.authDomains : undefined;
+    this.sites = [...(options.allowedDomains ?? [])];
+    for (const site of options.sites ?? []) {
+      this.addSite(site);
+    }
+    this.jar = options.cookieFile ? CookieJar.load(options.cookieFile) : undefined;
+    this.proxy = options.proxy;
+    this.envProxy = {
+      'http:': env.HTTP_PROXY ?? env.http_proxy,
+      'https:': env.HTTPS_PROXY ?? env.https_proxy ?? env.HTTP_PROXY ?? env.http_proxy
+    };
+    this.noProxy = options.noProxy
+      ?? (env.NO_PROXY ?? env.no_proxy ?? '').split(',').map(host => host.trim()).filter(Boolean);
+  }
+
+  /**
+   * Add the host of a crawled site to the default scope, and remember which scheme it uses
+   */
+  addSite(url: string): void {
+    try {
+      const { hostname, protocol } = new URL(url);
+      if (!hostname) {
+        return;
+      }
+      if (!this.sites.includes(hostname)) {
+        this.sites.push(hostname);
+      }
+      if (protocol === 'https:') {
+        this.secure = true;
+      } else if (protocol === 'http:' && !this.plainHosts.includes(hostname)) {
+        this.plainHosts.push(hostname);
+      }
+    } catch (e) {
+      // Not a URL with a host, e.g. a local path
+    }
+  }
+
+  get scope(): string[] {
+    return this.authDomains ?? this.sites;
+  }
+
+  /**
+   * Whether credentials are kept off plain http, because a site is crawled over https
+   */
+  get httpsOnly(): boolean {
+    return this.secure;
+  }
+
+  /**
+   * Check if a URL may receive credentials, cookies and unscoped headers
+   */
+  inScope(url: string): boolean {
+    const { hostname, protocol } = new URL(url);
+    if (protocol !== 'https:' && this.secure && !this.plainHosts.includes(hostname)) {
+      return false;
+    }
+    return matchesDomain(hostname, this.scope);
+  }
+
+  /**
+   * Request headers for a URL, on top of the headers given by the caller
+   */
+  async headers(url: string, init?: HeadersInit): Promise<Headers> {
+    const headers = new Headers(init);
+    if (this.userAgent) {
+      headers.set('User-Agent', this.userAgent);
+    }
+
+    const { hostname } = new URL(url);
+    const inScope = this.inScope(url);
+    for (const rule of this.rules) {
+      if (rule.host ? matchesDomain(hostname, [rule.host]) : inScope) {
+        headers.set(rule.name, rule.value);
+      }
+    }
+    if (!inScope) {
+      return headers;
+    }
+
+    if (this.authorization && !headers.has('Authorization')) {
+      headers.set('Authorization', this.authorization);
+    }
+    const cookie = (await this.jar)?.header(url);
+    if (cookie) {
+      headers.set('Cookie', headers.has('Cookie') ? `${headers.get('Cookie')}; ${cookie}` : cookie);
+    }
+    return headers;
+  }
+
+  /**
+   * Keep the cookies set by a response from a host in scope
+   */
+  async storeCookies(url: string, response: Response): Promise<void> {
+    if (this.jar && this.inScope(url)) {
+      (await this.jar).store(url, response.headers.getSetCookie());
+    }
+  }
+
+  /**
+   * Proxy URL for a request, or undefined to connect directly. Without a proxy option, HTTPS_PROXY
+   * and HTTP_PROXY apply; NO_PROXY entries match the host and its subdomains.
+   */
+  proxyFor(url: string): string | undefined {
+    const { hostname, protocol } = new URL(url);
+    const proxy = this.proxy ?? this.envProxy[protocol];
+    if (!proxy) {
+      return undefined;
+    }
+    const bypass = this.noProxy.some(entry => {
+      const domain = entry.replace(/^\*?\./, '');
+      return entry === '*' || matchesDomain(hostname, [domain, `*.${domain}`]);
+    });
+    return bypass ? undefined : proxy;
+  }
+}
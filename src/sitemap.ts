@@ -0,0 +1,103 @@
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { Fetcher, HttpFetcher } from './fetcher.js';
+
+/**
+ * A page URL listed in a sitemap
+ */
+export interface SitemapEntry {
+  url: string;
+  lastmod?: Date;
+}
+
+/**
+ * Discovers sitemaps for a site and expands nested sitemap indexes into page URLs
+ */
+export class SitemapLoader {
+  private userAgent: string;
+  private timeout: number;
+  private maxSitemaps: number;
+  private fetcher: Fetcher;
+
+  constructor(userAgent: string, timeout: number, fetcher: Fetcher = new HttpFetcher(), maxSitemaps = 50) {
+    this.userAgent = userAgent;
+    this.timeout = timeout;
+    this.maxSitemaps = maxSitemaps;
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Load all page entries from /sitemap.xml and any extra sitemap URLs (e.g. from robots.txt)
+   */
+  async load(seedUrl: string, extraSitemaps: string[] = []): Promise<SitemapEntry[]> {
+    const pending = [new URL('/sitemap.xml', seedUrl).toString(), ...extraSitemaps];
+    const seen = new Set<string>();
+    const entries = new Map<string, SitemapEntry>();
+
+    while (pending.length > 0 && seen.size < this.maxSitemaps) {
+      const sitemapUrl = pending.shift()!;
+      if (seen.has(sitemapUrl)) {
+        continue;
+      }
+      seen.add(sitemapUrl);
+
+      const xml = await this.fetchSitemap(sitemapUrl);
+      if (!xml) {
+        continue;
+      }
+
+      const $ = cheerio.load(xml, { xml: true });
+
+      // Sitemap indexes point at further sitemaps
+      $('sitemapindex > sitemap > loc').each((_, element) => {
+        const loc = $(element).text().trim();
+        if (loc) {
+          pending.push(loc);
+        }
+      });
+
+      $('urlset > url').each((_, element) => {
+        const loc = $(element).find('loc').first().text().trim();
+        if (!loc || entries.has(loc)) {
+          return;
+        }
+
+        const lastmodText = $(element).find('lastmod').first().text().trim();
+        const lastmod = lastmodText ? new Date(lastmodText) : undefined;
+        entries.set(loc, {
+          url: loc,
+          lastmod: lastmod && !isNaN(lastmod.getTime()) ? lastmod : undefined
+        });
+      });
+    }
+
+    return [...entries.values()];
+  }
+
+  /**
+   * Fetch a sitemap body, decompressing .gz sitemaps; returns an empty string on failure
+   */
+  private async fetchSitemap(sitemapUrl: string): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetcher.fetch(sitemapUrl, {
+        headers: { 'User-Agent': this.userAgent },
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        return '';
+      }
+
+      const body = Buffer.from(await response.arrayBuffer());
+      const isGzip = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+      return (isGzip ? gunzipSync(body) : body).toString('utf-8');
+    } catch (error) {
+      return '';
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { CrawlRecord, NavItem, PageData } from './interfaces.js';
+import { Logger, silentLogger } from './logger.js';
+
+/**
+ * Crawl progress saved between runs
+ */
+export interface CrawlCheckpoint {
+  seedUrl: string;
+  urlCount: number;
+  hostCounts?: Record<string, number>; // Pages fetched per host, for the per-host budgets
+  visited: string[];  // Keys of URLs that finished processing
+  frontier: string[]; // URLs discovered but not yet processed
+  records?: CrawlRecord[]; // Crawl report entries so far
+  updatedAt: string;
+}
+
+/**
+ * Entry in the page index; the body is stored in a separate file
+ */
+interface StoredPage {
+  url: string;
+  title?: string;
+  links?: string[]; // Left out once the page's links were dropped; the earlier entry keeps them
+  nav?: NavItem[];
+  depth?: number;
+  order?: number;
+  aliases?: string[];
+  file: string;
+}
+
+/**
+ * On-disk crawl state: a checkpoint of the frontier and visited set, plus every fetched page body
+ */
+export class CrawlState {
+  private dir: string;
+  private pagesDir: string;
+  private indexPath: string;
+  private checkpointPath: string;
+  private writing: Promise<void> = Promise.resolve();
+  private logger: Logger;
+  private key: (url: string) => string;
+
+  /**
+   * key maps a page URL to the form stored in the visited list
+   */
+  constructor(dir: string, logger: Logger = silentLogger, key: (url: string) => string = url => url) {
+    this.dir = dir;
+    this.logger = logger;
+    this.key = key;
+    this.pagesDir = path.join(dir, 'pages');
+    this.indexPath = path.join(dir, 'pages.jsonl');
+    this.checkpointPath = path.join(dir, 'state.json');
+  }
+
+  /**
+   * Remove any previous state and prepare the directory for a fresh crawl
+   */
+  async reset(): Promise<void> {
+    await fs.rm(this.pagesDir, { recursive: true, force: true });
+    await fs.rm(this.indexPath, { force: true });
+    await fs.rm(this.checkpointPath, { force: true });
+    await fs.mkdir(this.pagesDir, { recursive: true });
+  }
+
+  /**
+   * Load the saved checkpoint and pages; returns null when there is nothing to resume for this seed.
+   * Pages are returned without their body, which readContent loads one page at a time.
+   */
+  async load(seedUrl: string): Promise<{ checkpoint: CrawlCheckpoint; pages: PageData[] } | null> {
+    let checkpoint: CrawlCheckpoint;
+    try {
+      checkpoint = JSON.parse(await fs.readFile(this.checkpointPath, 'utf-8'));
+    } catch (e) {
+      return null;
+    }
+
+    if (checkpoint.seedUrl !== seedUrl) {
+      this.logger.info(`Saved state in ${this.dir} is for ${checkpoint.seedUrl}, starting a fresh crawl.`);
+      return null;
+    }
+
+    // Later entries for the same URL replace earlier ones
+    const stored = new Map<string, StoredPage>();
+    try {
+      const lines = (await fs.readFile(this.indexPath, 'utf-8')).split('\n');
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const entry = JSON.parse(line) as StoredPage;
+          stored.set(entry.url, { ...entry, links: entry.links ?? stored.get(entry.url)?.links });
+        } catch (e) {
+          // Skip a partially written line from an interrupted run
+        }
+      }
+    } catch (e) {
+      // No pages saved yet
+    }
+
+    const pages: PageData[] = [];
+    for (const entry of stored.values()) {
+      try {
+        await fs.access(path.join(this.pagesDir, entry.file));
+        pages.push({
+          url: entry.url, content: '', links: entry.links ?? [], title: entry.title, nav: entry.nav,
+          depth: entry.depth, order: entry.order, aliases: entry.aliases
+        });
+      } catch (e) {
+        // A missing body means the page was not fully saved; fetch it again
+        const key = this.key(entry.url);
+        checkpoint.visited = checkpoint.visited.filter(url => url !== key);
+        checkpoint.frontier.push(entry.url);
+      }
+    }
+
+    await fs.mkdir(this.pagesDir, { recursive: true });
+    return { checkpoint, pages };
+  }
+
+  /**
+   * Body of a saved page
+   */
+  async readContent(url: string): Promise<string> {
+    return fs.readFile(path.join(this.pagesDir, this.pageFile(url)), 'utf-8');
+  }
+
+  /**
+   * Save a fetched page body and append it to the page index.
+   * A page whose body and links were already handed off is saved again without them, keeping the stored ones.
+   */
+  async savePage(page: PageData): Promise<void> {
+    const file = this.pageFile(page.url);
+    if (page.content) {
+      await fs.writeFile(path.join(this.pagesDir, file), page.content, 'utf-8');
+    }
+
+    const entry: StoredPage = {
+      url: page.url, title: page.title, links: page.content ? page.links : undefined, nav: page.nav,
+      depth: page.depth, order: page.order, aliases: page.aliases, file
+    };
+    await fs.appendFile(this.indexPath, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  /**
+   * Name of the file holding a page's body
+   */
+  private pageFile(url: string): string {
+    return createHash('sha1').update(url).digest('hex') + '.html';
+  }
+
+  /**
+   * Atomically replace the checkpoint; writes are serialized so an older snapshot never wins
+   */
+  saveCheckpoint(checkpoint: CrawlCheckpoint): Promise<void> {
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      const tempPath = `${this.checkpointPath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(checkpoint), 'utf-8');
+      await fs.rename(tempPath, this.checkpointPath);
+    });
+    return this.writing;
+  }
+}
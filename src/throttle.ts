@@ -0,0 +1,24 @@
+/**
+ * Enforces a minimum interval between requests to the same host
+ */
+export class HostThrottle {
+  private nextSlot = new Map<string, number>();
+
+  /**
+   * Wait until a request to the host is allowed. Slots are reserved synchronously,
+   * so concurrent callers for the same host are spaced out rather than released together.
+   */
+  async wait(host: string, interval: number): Promise<void> {
+    if (interval <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+    this.nextSlot.set(host, slot + interval);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
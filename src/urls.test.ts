@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { matchesDomain, UrlNormalizer } from './urls.js';
+
+describe('UrlNormalizer', () => {
+  test('cleans fragments and query parameters from the URL to fetch', () => {
+    const urls = new UrlNormalizer();
+    expect(urls.clean('https://example.com/docs/?utm_source=x#install')).toBe('https://example.com/docs/');
+    expect(urls.clean('not a url?a=1#b')).toBe('not a url');
+  });
+
+  test('treats trailing slashes and index files as the same page', () => {
+    const urls = new UrlNormalizer();
+    const key = urls.normalize('https://example.com/docs');
+    expect(urls.normalize('https://example.com/docs/')).toBe(key);
+    expect(urls.normalize('https://example.com/docs/index.html')).toBe(key);
+    expect(urls.normalize('https://example.com/docs/INDEX.HTM')).toBe(key);
+    expect(urls.normalize('https://example.com/')).toBe('https://example.com/');
+  });
+
+  test('keeps trailing slashes and index files when configured', () => {
+    const urls = new UrlNormalizer({ ignoreTrailingSlash: false, indexFiles: [] });
+    expect(urls.normalize('https://example.com/docs/')).not.toBe(urls.normalize('https://example.com/docs'));
+    expect(urls.normalize('https://example.com/docs/index.html')).toBe('https://example.com/docs/index.html');
+  });
+
+  test('folds the case of paths only with ignoreCase', () => {
+    expect(new UrlNormalizer().normalize('https://Example.com/Docs/Intro')).toBe('https://example.com/Docs/Intro');
+    expect(new UrlNormalizer({ ignoreCase: true }).normalize('https://example.com/Docs/Intro')).toBe('https://example.com/docs/intro');
+  });
+
+  test('keeps allowed query parameters in a stable order', () => {
+    const urls = new UrlNormalizer({ keepQueryParams: ['page', 'lang'] });
+    expect(urls.normalize('https://example.com/list?page=2&utm=x&lang=en')).toBe('https://example.com/list?lang=en&page=2');
+    expect(urls.normalize('https://example.com/list?lang=en&page=2')).toBe(urls.normalize('https://example.com/list?page=2&lang=en'));
+    expect(urls.clean('https://example.com/list?utm=x&page=2')).toBe('https://example.com/list?page=2');
+  });
+
+  test('keeps every query parameter with *', () => {
+    const urls = new UrlNormalizer({ keepQueryParams: ['*'] });
+    expect(urls.normalize('https://example.com/list?b=2&a=1')).toBe('https://example.com/list?a=1&b=2');
+  });
+});
+
+describe('matchesDomain', () => {
+  test('matches exact hosts without regard to case', () => {
+    expect(matchesDomain('Docs.Example.com', ['docs.example.com'])).toBe(true);
+    expect(matchesDomain('api.example.com', ['docs.example.com'])).toBe(false);
+  });
+
+  test('matches subdomains with a *. prefix', () => {
+    expect(matchesDomain('api.example.com', ['*.example.com'])).toBe(true);
+    expect(matchesDomain('a.b.example.com', ['*.example.com'])).toBe(true);
+    expect(matchesDomain('example.com', ['*.example.com'])).toBe(false);
+    expect(matchesDomain('badexample.com', ['*.example.com'])).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Options controlling which URLs are treated as the same page
+ */
+export interface UrlNormalizationOptions {
+  ignoreTrailingSlash?: boolean; // /docs/intro and /docs/intro/ are the same page (default: true)
+  indexFiles?: string[];         // File names that stand for their directory (default: index.html, index.htm)
+  ignoreCase?: boolean;          // Paths that differ only in case are the same page (default: false)
+  keepQueryParams?: string[];    // Query parameters that select a different page; '*' keeps all (default: none)
+}
+
+export const DEFAULT_INDEX_FILES = ['index.html', 'index.htm'];
+
+/**
+ * Turns URLs into the form used to fetch them and the key used to recognize the same page
+ */
+export class UrlNormalizer {
+  private ignoreTrailingSlash: boolean;
+  private indexFiles: string[];
+  private ignoreCase: boolean;
+  private keepQueryParams: string[];
+
+  constructor(options: UrlNormalizationOptions = {}) {
+    this.ignoreTrailingSlash = options.ignoreTrailingSlash ?? true;
+    this.indexFiles = (options.indexFiles ?? DEFAULT_INDEX_FILES).map(file => file.toLowerCase());
+    this.ignoreCase = options.ignoreCase ?? false;
+    this.keepQueryParams = options.keepQueryParams ?? [];
+  }
+
+  /**
+   * URL to fetch: without fragment, keeping only the allowed query parameters
+   */
+  clean(link: string): string {
+    const url = this.parse(link);
+    if (!url) {
+      return link.split('?')[0].split('#')[0];
+    }
+    url.hash = '';
+    this.filterQuery(url);
+    return url.toString();
+  }
+
+  /**
+   * Key identifying the page a URL points to; equal keys are exported once
+   */
+  normalize(link: string): string {
+    const url = this.parse(link);
+    if (!url) {
+      return link.split('?')[0].split('#')[0];
+    }
+    url.hash = '';
+    this.filterQuery(url);
+    url.searchParams.sort();
+
+    let pathname = url.pathname;
+    const lastSegment = pathname.slice(pathname.lastIndexOf('/') + 1);
+    if (this.indexFiles.includes(lastSegment.toLowerCase())) {
+      pathname = pathname.slice(0, pathname.length - lastSegment.length);
+    }
+    if (this.ignoreTrailingSlash && pathname.length > 1 && pathname.endsWith('/')) {
+      pathname = pathname.replace(/\/+$/, '') || '/';
+    }
+    if (this.ignoreCase) {
+      pathname = pathname.toLowerCase();
+    }
+    url.pathname = pathname;
+
+    return url.toString();
+  }
+
+  private parse(link: string): URL | null {
+    try {
+      return new URL(link);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Drop query parameters that are not in the allowlist
+   */
+  private filterQuery(url: URL): void {
+    if (this.keepQueryParams.includes('*')) {
+      return;
+    }
+    for (const name of [...url.searchParams.keys()]) {
+      if (!this.keepQueryParams.includes(name)) {
+        url.searchParams.delete(name);
+      }
+    }
+    if (!url.searchParams.toString()) {
+      url.search = '';
+    }
+  }
+}
+
+/**
+ * Check if a host matches one of a list of domains; "*.example.com" matches every subdomain
+ */
+export function matchesDomain(hostname: string, domains: string[]): boolean {
+  hostname = hostname.toLowerCase();
+  return domains.some(domain => domain.startsWith('*.')
+    ? hostname.endsWith(domain.slice(1).toLowerCase())
+    : hostname === domain.toLowerCase());
+}
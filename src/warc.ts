@@ -0,0 +1,396 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { gunzipSync, gzipSync, inflateRawSync } from 'zlib';
+
+export const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+export const MAX_REDIRECTS = 20;
+// Headers that describe the wire encoding, not the decoded body stored in the archive
+export const ENCODING_HEADERS = ['content-encoding', 'transfer-encoding', 'content-length'];
+
+/**
+ * An HTTP response stored in a WARC file
+ */
+export interface WarcResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: Buffer;
+}
+
+/**
+ * Appends HTTP responses to a WARC file, one gzip member per record when the file name ends in .gz
+ */
+export class WarcWriter {
+  private file: string;
+  private gzip: boolean;
+  private pending: Promise<void>;
+  private count = 0;
+
+  /**
+   * Start a new archive, or add to an existing one when appending (e.g. for a resumed crawl)
+   */
+  constructor(file: string, append = false) {
+    this.file = file;
+    this.gzip = file.endsWith('.gz');
+    this.pending = this.start(append);
+  }
+
+  /**
+   * Number of responses recorded so far
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Queue a response record; redirects are stored as their own records with a Location header
+   */
+  record(url: string, response: WarcResponse): void {
+    const headers = response.headers.filter(([name]) => !ENCODING_HEADERS.includes(name.toLowerCase()));
+    headers.push(['Content-Length', String(response.body.length)]);
+    const head = `HTTP/1.1 ${response.status} ${response.statusText}\r\n`
+      + headers.map(([name, value]) => `${name}: ${value}\r\n`).join('')
+      + '\r\n';
+
+    this.count++;
+    this.append({
+      'WARC-Type': 'response',
+      'WARC-Target-URI': url,
+      'Content-Type': 'application/http;msgtype=response'
+    }, Buffer.concat([Buffer.from(head, 'latin1'), response.body]));
+  }
+
+  /**
+   * Wait until every queued record is on disk
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private async start(append: boolean): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    if (!append) {
+      await fs.writeFile(this.file, '');
+    }
+    this.append({
+      'WARC-Type': 'warcinfo',
+      'Content-Type': 'application/warc-fields'
+    }, Buffer.from('software: doc-export\r\nformat: WARC File Format 1.1\r\n'));
+  }
+
+  private append(fields: Record<string, string>, block: Buffer): void {
+    const header = 'WARC/1.1\r\n'
+      + Object.entries({
+        ...fields,
+        'WARC-Record-ID': `<urn:uuid:${randomUUID()}>`,
+        'WARC-Date': new Date().toISOString().replace(/\.\d+Z$/, 'Z'),
+        'Content-Length': String(block.length)
+      }).map(([name, value]) => `${name}: ${value}\r\n`).join('')
+      + '\r\n';
+    const record = Buffer.concat([Buffer.from(header, 'utf-8'), block, Buffer.from('\r\n\r\n')]);
+
+    // Records are written one after another so they never interleave
+    this.pending = this.pending.then(() => fs.appendFile(this.file, this.gzip ? gzipSync(record) : record));
+  }
+}
+
+/**
+ * Where a record is stored: a byte range of the file (one gzip member for .warc.gz) and the
+ * record's offset inside that range once decompressed
+ */
+interface WarcEntry {
+  offset: number;
+  length: number;
+  gzip: boolean;
+  record: number;
+}
+
+/**
+ * Read-only index of the HTTP responses in a WARC file (plain or gzipped), keyed by URL.
+ * Only the position of each record is kept in memory; bodies are read from disk on demand.
+ */
+export class WarcArchive {
+  private file: string;
+  private entries?: Promise<Map<string, WarcEntry>>;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  /**
+   * Look up the response recorded for a URL, following redirects recorded in the archive.
+   * Returns null when the URL was not archived.
+   */
+  async get(url: string): Promise<{ url: string; response: WarcResponse } | null> {
+    const entries = await this.load();
+    for (let hops = 0; ; hops++) {
+      const found = this.find(entries, url);
+      if (!found) {
+        return null;
+      }
+
+      const response = await this.read(found.entry);
+      const location = response.headers.find(([name]) => name.toLowerCase() === 'location')?.[1];
+      if (!REDIRECT_STATUSES.includes(response.status) || !location || hops >= MAX_REDIRECTS) {
+        return { url: found.url, response };
+      }
+      const target = new URL(location, found.url).toString();
+      if (!this.find(entries, target)) {
+        return { url: found.url, response };
+      }
+      url = target;
+    }
+  }
+
+  /**
+   * Find a URL, also trying it with or without a trailing slash
+   */
+  private find(entries: Map<string, WarcEntry>, url: string): { url: string; entry: WarcEntry } | null {
+    url = url.split('#')[0];
+    const variants = [url, url.endsWith('/') ? url.slice(0, -1) : `${url}/`];
+    for (const variant of variants) {
+      const entry = entries.get(variant);
+      if (entry) {
+        return { url: variant, entry };
+      }
+    }
+    return null;
+  }
+
+  private load(): Promise<Map<string, WarcEntry>> {
+    this.entries ??= this.index();
+    return this.entries;
+  }
+
+  /**
+   * Index the response records in one pass over the file; the last record of a URL wins,
+   * and revisit records point at the response they repeat
+   */
+  private async index(): Promise<Map<string, WarcEntry>> {
+    const entries = new Map<string, WarcEntry>();
+    const revisits: [string, string][] = [];
+    const add = (fields: Record<string, string>, entry: WarcEntry) => {
+      const url = fields['warc-target-uri']?.replace(/^<|>$/g, '');
+      if (!url) {
+        return;
+      }
+      if (fields['warc-type'] === 'response' && /application\/http/i.test(fields['content-type'] ?? '')) {
+        entries.set(url, entry);
+      } else if (fields['warc-type'] === 'revisit' && fields['warc-refers-to-target-uri']) {
+        revisits.push([url, fields['warc-refers-to-target-uri']]);
+      }
+    };
+
+    const file = await fs.open(this.file, 'r');
+    try {
+      const { size } = await file.stat();
+      const magic = await this.readRange(file, 0, 2);
+      const gzip = magic[0] === 0x1f && magic[1] === 0x8b;
+      let offset = 0;
+      while (offset < size) {
+        if (gzip) {
+          // Each gzip member is decompressed once to find the records it holds, then dropped
+          const member = await this.readMember(file, offset);
+          if (!member) {
+            break;
+          }
+          for (const { fields, start } of this.records(member.data)) {
+            add(fields, { offset, length: member.length, gzip, record: start });
+          }
+          offset += member.length;
+        } else {
+          const record = await this.readRecordHeader(file, offset);
+          if (!record) {
+            break;
+          }
+          add(record.fields, { offset, length: record.length, gzip, record: 0 });
+          offset += record.length;
+          // Records end with a blank line that the header's length does not count
+          const gap = await this.readRange(file, offset, 4);
+          let skip = 0;
+          while (gap[skip] === 0x0d || gap[skip] === 0x0a) {
+            skip++;
+          }
+          offset += skip;
+        }
+      }
+    } finally {
+      await file.close();
+    }
+
+    for (const [url, original] of revisits) {
+      const entry = entries.get(original);
+      if (entry && !entries.has(url)) {
+        entries.set(url, entry);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Read the block of an indexed record from disk
+   */
+  private async read(entry: WarcEntry): Promise<WarcResponse> {
+    const file = await fs.open(this.file, 'r');
+    let data: Buffer;
+    try {
+      data = await this.readRange(file, entry.offset, entry.length);
+    } finally {
+      await file.close();
+    }
+    if (entry.gzip) {
+      data = gunzipSync(data);
+    }
+    const [record] = this.records(data.subarray(entry.record));
+    return this.parseResponse(record?.block ?? Buffer.alloc(0));
+  }
+
+  /**
+   * Split decompressed WARC data into records
+   */
+  private *records(data: Buffer): Generator<{ fields: Record<string, string>; start: number; block: Buffer }> {
+    let offset = 0;
+    while (offset < data.length) {
+      const headerEnd = data.indexOf('\r\n\r\n', offset);
+      if (headerEnd === -1) {
+        return;
+      }
+      const fields = this.parseFields(data.toString('utf-8', offset, headerEnd));
+      const length = parseInt(fields['content-length'] ?? '0');
+      const block = data.subarray(headerEnd + 4, headerEnd + 4 + length);
+      yield { fields, start: offset, block };
+      offset = headerEnd + 4 + length;
+      while (data[offset] === 0x0d || data[offset] === 0x0a) {
+        offset++;
+      }
+    }
+  }
+
+  /**
+   * Read the header of the uncompressed record at an offset; the length covers header and block
+   */
+  private async readRecordHeader(file: fs.FileHandle, offset: number): Promise<{ fields: Record<string, string>; length: number } | null> {
+    for (let size = 16 * 1024; ; size *= 4) {
+      const chunk = await this.readRange(file, offset, size);
+      const headerEnd = chunk.indexOf('\r\n\r\n');
+      if (headerEnd !== -1) {
+        const fields = this.parseFields(chunk.toString('utf-8', 0, headerEnd));
+        return { fields, length: headerEnd + 4 + parseInt(fields['content-length'] ?? '0') };
+      }
+      if (chunk.length < size) {
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Decompress the gzip member at an offset and measure its compressed length.
+   * Returns null for a truncated member at the end of the file.
+   */
+  private async readMember(file: fs.FileHandle, offset: number): Promise<{ data: Buffer; length: number } | null> {
+    for (let size = 64 * 1024; ; size *= 4) {
+      const chunk = await this.readRange(file, offset, size);
+      const headerLength = this.gzipHeaderLength(chunk);
+      try {
+        // With `info` zlib also reports how much input the deflate stream used
+        const { buffer, engine } = inflateRawSync(chunk.subarray(headerLength), { info: true }) as unknown as {
+          buffer: Buffer;
+          engine: { bytesWritten: number };
+        };
+        // The deflate stream is followed by an 8-byte CRC32 and size trailer
+        return { data: buffer, length: headerLength + engine.bytesWritten + 8 };
+      } catch (e) {
+        if (chunk.length < size) {
+          return null;
+        }
+      }
+    }
+  }
+
+  private gzipHeaderLength(chunk: Buffer): number {
+    const flags = chunk[3];
+    let length = 10;
+    if (flags & 0x04) {
+      length += 2 + chunk.readUInt16LE(10);
+    }
+    if (flags & 0x08) {
+      length = chunk.indexOf(0, length) + 1;
+    }
+    if (flags & 0x10) {
+      length = chunk.indexOf(0, length) + 1;
+    }
+    if (flags & 0x02) {
+      length += 2;
+    }
+    return length;
+  }
+
+  private async readRange(file: fs.FileHandle, offset: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, offset);
+    return buffer.subarray(0, bytesRead);
+  }
+
+  private parseFields(text: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const line of text.split('\r\n').slice(1)) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        fields[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * Parse a raw HTTP response, undoing chunked transfer and gzip encoding left by other archivers
+   */
+  private parseResponse(block: Buffer): WarcResponse {
+    let headerEnd = block.indexOf('\r\n\r\n');
+    if (headerEnd === -1) {
+      headerEnd = block.length;
+    }
+    const [statusLine, ...lines] = block.toString('latin1', 0, headerEnd).split('\r\n');
+    const [, status = '200', statusText = ''] = statusLine.match(/^HTTP\/[\d.]+\s+(\d{3})\s*(.*)$/) ?? [];
+    const headers = lines.flatMap((line): [string, string][] => {
+      const colon = line.indexOf(':');
+      return colon > 0 ? [[line.slice(0, colon).trim(), line.slice(colon + 1).trim()]] : [];
+    });
+
+    const header = (name: string) => headers.find(([key]) => key.toLowerCase() === name)?.[1] ?? '';
+    let body = block.subarray(headerEnd + 4);
+    if (/chunked/i.test(header('transfer-encoding'))) {
+      body = this.dechunk(body);
+    }
+    if (/gzip/i.test(header('content-encoding'))) {
+      try {
+        body = gunzipSync(body);
+      } catch (e) {
+        // Keep the stored bytes if they were already decoded
+      }
+    }
+
+    return {
+      status: parseInt(status),
+      statusText,
+      headers: headers.filter(([name]) => !ENCODING_HEADERS.includes(name.toLowerCase())),
+      body
+    };
+  }
+
+  private dechunk(body: Buffer): Buffer {
+    const chunks: Buffer[] = [];
+    let offset = 0;
+    while (offset < body.length) {
+      const lineEnd = body.indexOf('\r\n', offset);
+      const size = parseInt(body.toString('latin1', offset, lineEnd === -1 ? body.length : lineEnd), 16);
+      if (lineEnd === -1 || !size) {
+        break;
+      }
+      chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+      offset = lineEnd + 2 + size + 2;
+    }
+    return Buffer.concat(chunks);
+  }
+}